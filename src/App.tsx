@@ -1,20 +1,426 @@
-import React, { useState, useEffect } from 'react';
-import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ZAxis } from 'recharts';
-import { Droplets, Cloud, Snowflake, TrendingUp, AlertCircle, RotateCcw } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ZAxis, ErrorBar, LineChart, Line, Legend, ReferenceArea, LabelList, BarChart, Bar, Cell } from 'recharts';
+import { Droplets, Cloud, Snowflake, TrendingUp, AlertCircle, RotateCcw, History, Database, Upload, Link, Save, Trash2, Download, Waves, Layers, Gauge } from 'lucide-react';
 import Papa from 'papaparse';
+import {
+  FORECAST_TARGETS, DATASET_FIELDS, MIN_DATASET_YEARS, MIN_BASELINE_YEARS, DEFAULT_BASELINE, BASELINE_PRESETS, MODEL_FORMS, PREDICTOR_KEYS,
+  ISSUE_DATES, DEFAULT_ISSUE_DATE, INPUT_DISTRIBUTIONS, CALIBRATION_METHODS, PROBABILITY_METHODS, TERCILE_CATEGORIES, RELIABILITY_BINS, DISPLAY_UNITS, DEFAULT_DRAINAGE_AREA_KM2, POWELL_EVAPORATION_FT, POWELL_THRESHOLDS,
+  parseCsv, guessColumnMapping, validateColumnMapping, validateDatasetSize, applyColumnMapping, prepareDataset, processDataset,
+  fitForecastModel, forecastScenario, extrapolationWarnings, findScenarioAnalogs, fitModel, leaveOneOutHindcast, skillScores,
+  trainingYears, influenceDiagnostics, calibrateInflow, categoryForecast, categoryReliability,
+  availableIssueDates, seasonalSkill, monteCarloScenario,
+  datasetBasins, basinRows, basinDrainageAreas, forecastBasinAggregate, convertUnits,
+  predictorContributions, tornadoSensitivity, responseSurface, espEnsemble,
+  mannKendall, sensSlope, movingAverage, powellStorageAtElevation, projectPowellStorage
+} from './engine';
+import type { TargetKey, ModelFormKey, IssueDateKey, IssueAction, InputDistribution, DisplayUnitKey, CalibrationMethod, ProbabilityMethod } from './engine';
+import { formatPValue, reportLines, REPORT_FONT_SIZES, renderReportPdf } from './report';
+import { DEFAULT_INPUT_UNCERTAINTY, DEFAULT_SCATTER_ENCODING, readScenarioFromQuery, scenarioToQuery } from './scenarioUrl';
+
+// Red-yellow-blue spectral ramp over a 0–1 position, dry/low to wet/high
+const spectralColor = (normalized) => {
+  if (normalized < 0.25) {
+    const t = normalized / 0.25;
+    return `rgb(${Math.round(215 + 40 * t)}, ${Math.round(48 + 62 * t)}, ${Math.round(39 - 9 * t)})`;
+  } else if (normalized < 0.5) {
+    const t = (normalized - 0.25) / 0.25;
+    return `rgb(${Math.round(255 - 5 * t)}, ${Math.round(110 + 110 * t)}, ${Math.round(30 + 20 * t)})`;
+  } else if (normalized < 0.75) {
+    const t = (normalized - 0.5) / 0.25;
+    return `rgb(${Math.round(250 - 180 * t)}, ${Math.round(220 - 20 * t)}, ${Math.round(50 + 150 * t)})`;
+  } else {
+    const t = (normalized - 0.75) / 0.25;
+    return `rgb(${Math.round(70 - 40 * t)}, ${Math.round(200 - 80 * t)}, ${Math.round(200 + 40 * t)})`;
+  }
+};
+
+// Dataset variables offered in the time-series view and the scatter encodings; targets are appended from FORECAST_TARGETS
+const DATA_VARIABLES = [
+  { key: 'swe', label: 'April 1st SWE', shortLabel: 'SWE', valueKey: 'swe_mm', pctKey: 'swe_pct', meanKey: 'swe', unit: 'mm', decimals: 1, color: '#3b82f6', isTarget: false },
+  { key: 'fallSM', label: 'Fall Soil Moisture (Oct-Nov)', shortLabel: 'Fall SM', valueKey: 'fallSM_mm', pctKey: 'fallSM_pct', meanKey: 'fallSM', unit: 'mm', decimals: 1, color: '#d97706', isTarget: false },
+  { key: 'springPrecip', label: 'Spring Precipitation (Apr-Jul)', shortLabel: 'Spring Precip', valueKey: 'springPrecip_mm', pctKey: 'springPrecip_pct', meanKey: 'springPrecip', unit: 'mm', decimals: 1, color: '#06b6d4', isTarget: false },
+  ...Object.entries(FORECAST_TARGETS).map(([key, t], i) => ({
+    key,
+    label: t.label,
+    shortLabel: t.shortLabel,
+    valueKey: t.valueKey,
+    pctKey: t.pctKey,
+    meanKey: t.meanKey,
+    unit: t.unit,
+    decimals: t.decimals,
+    color: ['#1d4ed8', '#7c3aed', '#0f766e'][i],
+    isTarget: true
+  }))
+];
+
+// The snowpack and precipitation predictors are named after the forecast issue date's columns
+const issueDateVariable = (variable, issueDate) => {
+  const spec = ISSUE_DATES[issueDate];
+  if (variable.key === 'swe') return { ...variable, label: spec.sweLabel };
+  if (variable.key === 'springPrecip') return { ...variable, label: spec.precipLabel, shortLabel: spec.precipShortLabel };
+  return variable;
+};
+
+const subscriptDigits = (n) => String(n).replace(/\d/g, d => '₀₁₂₃₄₅₆₇₈₉'[d]);
+
+// Scenario state mirrored in the query string; see scenarioUrl
+const readScenarioFromUrl = () => readScenarioFromQuery(window.location.search);
+
+const BETA_DISCLAIMER = 'This is a development version intended for testing and validation. ' +
+  'Results should not be used for operational water management decisions without proper verification.';
+
+const downloadBlob = (blob, fileName) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Browsers start the download asynchronously; revoking straight away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 40000);
+};
+
+// Rasterise a rendered chart <svg> so it can be embedded in PDF and PNG reports
+const svgToPngDataUrl = (svg, scale = 2) => new Promise((resolve, reject) => {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true);
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml' }));
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    resolve({ dataUrl: canvas.toDataURL('image/png'), width, height });
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Could not render chart snapshot'));
+  };
+  image.src = url;
+});
+
+// Greedy word wrap to a pixel width with the context's current font, matching splitTextToSize in the PDF
+const wrapCanvasText = (ctx, text, maxWidth) => {
+  const wrapped = [];
+  text.split(' ').forEach(word => {
+    const current = wrapped[wrapped.length - 1];
+    if (current !== undefined && ctx.measureText(`${current} ${word}`).width <= maxWidth) {
+      wrapped[wrapped.length - 1] = `${current} ${word}`;
+    } else {
+      wrapped.push(word);
+    }
+  });
+  return wrapped;
+};
+
+const renderReportPng = (report, chart) => new Promise<void>((resolve, reject) => {
+  const scale = 2;
+  const width = 900;
+  const margin = 40;
+  const contentWidth = width - 2 * margin;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  const fontFor = (style, size) => `${style === 'title' || style === 'heading' ? 'bold ' : ''}${size}px Helvetica, Arial, sans-serif`;
+  
+  // Wrap before sizing the canvas, since resizing it resets the context
+  const lines = reportLines(report).map(line => {
+    const size = REPORT_FONT_SIZES[line.style] * 1.5;
+    ctx.font = fontFor(line.style, size);
+    return { ...line, size, wrapped: wrapCanvasText(ctx, line.text, contentWidth) };
+  });
+  ctx.font = fontFor('small', 11);
+  const disclaimer = wrapCanvasText(ctx, `INTERNAL BETA VERSION: ${report.disclaimer}`, contentWidth);
+  const textHeight = lines.reduce((sum, line) => sum + (line.style === 'heading' ? 8 : 0) + line.wrapped.length * line.size * 1.35, 0);
+  const chartHeight = chart ? contentWidth * (chart.height / chart.width) : 0;
+  canvas.width = width * scale;
+  canvas.height = (margin * 2 + textHeight + (chart ? chartHeight + 10 : 0) + 10 + disclaimer.length * 15) * scale;
+  ctx.scale(scale, scale);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, canvas.height / scale);
+  
+  let y = margin;
+  lines.forEach(line => {
+    if (line.style === 'heading') y += 8;
+    ctx.font = fontFor(line.style, line.size);
+    ctx.fillStyle = line.style === 'warning' ? '#dc2626' : line.style === 'small' ? '#4b5563' : '#111827';
+    line.wrapped.forEach(text => {
+      ctx.fillText(text, margin, y + line.size);
+      y += line.size * 1.35;
+    });
+  });
+  
+  const finish = () => {
+    ctx.font = fontFor('small', 11);
+    ctx.fillStyle = '#6b7280';
+    disclaimer.forEach((text, i) => ctx.fillText(text, margin, y + 20 + i * 15));
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error('Could not encode the PNG brief'));
+        return;
+      }
+      downloadBlob(blob, `${report.fileStem}.png`);
+      resolve();
+    }, 'image/png');
+  };
+  if (!chart) {
+    finish();
+    return;
+  }
+  const image = new Image();
+  image.onload = () => {
+    ctx.drawImage(image, margin, y + 10, contentWidth, chartHeight);
+    y += chartHeight + 10;
+    finish();
+  };
+  image.onerror = () => reject(new Error('Could not draw the chart snapshot into the PNG brief'));
+  image.src = chart.dataUrl;
+});
+
+// Flat section/field/value rows for spreadsheet use
+const reportToCsv = (report) => {
+  const rows = [
+    ['metadata', 'generated_at', report.generatedAt],
+    ['metadata', 'dataset', report.dataset.name],
+    ['metadata', 'dataset_source', report.dataset.source],
+    ['metadata', 'dataset_span', report.dataset.span],
+    ['metadata', 'basin', report.dataset.basin],
+    ['metadata', 'baseline_start', report.baseline.start],
+    ['metadata', 'baseline_end', report.baseline.end],
+    ['metadata', 'issue_date', report.issueDate.key],
+    ['metadata', 'target', report.target.key],
+    ['metadata', 'target_unit', report.target.unitKey],
+    ['metadata', 'drainage_area_km2', report.drainageAreaKm2],
+    ['metadata', 'model', report.model.form],
+    ['metadata', 'intercept', report.model.intercept],
+    ['metadata', 'excluded_years', report.model.excludedYears.join(' ')],
+    ['inputs', 'swe_pct', report.inputs.swe],
+    ['inputs', 'fallSM_pct', report.inputs.fallSM],
+    ['inputs', 'springPrecip_pct', report.inputs.springPrecip],
+    ['inputs', 'selected_year', report.inputs.selectedYear ?? ''],
+    ['forecast', 'pct_of_average', report.forecast.pct],
+    ['forecast', `value_${report.target.unitKey}`, report.forecast.value],
+    ...report.forecast.intervals.flatMap(i => [
+      ['forecast', `pi${Math.round(i.level * 100)}_low_pct`, i.lowPct],
+      ['forecast', `pi${Math.round(i.level * 100)}_high_pct`, i.highPct],
+      ['forecast', `pi${Math.round(i.level * 100)}_low_${report.target.unitKey}`, i.lowValue],
+      ['forecast', `pi${Math.round(i.level * 100)}_high_${report.target.unitKey}`, i.highValue]
+    ]),
+    ...(report.forecast.inflowMAF !== null ? [['forecast', 'powell_inflow_MAF', report.forecast.inflowMAF]] : []),
+    ...(report.forecast.correctedInflow
+      ? [
+          ['calibration', 'method', report.forecast.correctedInflow.method],
+          ['calibration', 'loo_rmse_MAF', report.forecast.correctedInflow.looRmse],
+          ['calibration', 'loo_bias_MAF', report.forecast.correctedInflow.looBias],
+          ['calibration', 'corrected_inflow_MAF', report.forecast.correctedInflow.valueMAF],
+          ...report.forecast.correctedInflow.intervals.flatMap(i => [
+            ['calibration', `corrected_pi${Math.round(i.level * 100)}_low_MAF`, i.lowMAF],
+            ['calibration', `corrected_pi${Math.round(i.level * 100)}_high_MAF`, i.highMAF]
+          ])
+        ]
+      : []),
+    ...(report.categories
+      ? [
+          ['categories', 'method', report.categories.method],
+          ['categories', `tercile_lower_${report.target.unitKey}`, report.categories.terciles.lower.value],
+          ['categories', `tercile_upper_${report.target.unitKey}`, report.categories.terciles.upper.value],
+          ...TERCILE_CATEGORIES.map(({ key }) => ['categories', `prob_${key}_normal`, report.categories.probabilities[key]]),
+          ...report.categories.thresholds.map(t => ['categories', `prob_below_${t.value}_${report.target.unitKey}`, t.probability])
+        ]
+      : []),
+    ...(report.esp
+      ? [
+          ['esp', 'traces', report.esp.traces],
+          ...report.esp.exceedance.flatMap(e => [
+            ['esp', `p${Math.round(e.level * 100)}_exceedance_pct`, e.pct],
+            ['esp', `p${Math.round(e.level * 100)}_exceedance_${report.target.unitKey}`, e.value]
+          ])
+        ]
+      : []),
+    ...(report.basinAggregate
+      ? [
+          ...report.basinAggregate.basins.flatMap(b => [
+            ['basin_aggregate', `${b.basin}_pct`, b.forecast.pct],
+            ['basin_aggregate', `${b.basin}_area_km2`, b.areaKm2 ?? ''],
+            ['basin_aggregate', `${b.basin}_volume_MAF`, b.volumeMAF]
+          ]),
+          ['basin_aggregate', 'total_MAF', report.basinAggregate.totalMAF],
+          ['basin_aggregate', 'total_pct', report.basinAggregate.pct],
+          ...report.basinAggregate.intervals.flatMap(i => [
+            ['basin_aggregate', `pi${Math.round(i.level * 100)}_low_MAF`, i.lowMAF],
+            ['basin_aggregate', `pi${Math.round(i.level * 100)}_high_MAF`, i.highMAF]
+          ])
+        ]
+      : []),
+    ...(report.monteCarlo
+      ? [
+          ['monte_carlo', 'samples', report.monteCarlo.samples],
+          ['monte_carlo', 'residual_error', report.monteCarlo.residual],
+          ...PREDICTOR_KEYS.flatMap(key => [
+            ['monte_carlo', `${key}_sigma_pct`, report.monteCarlo.uncertainty[key].sigma],
+            ['monte_carlo', `${key}_distribution`, report.monteCarlo.uncertainty[key].distribution]
+          ]),
+          ...report.monteCarlo.percentiles.flatMap(p => [
+            ['monte_carlo', `p${Math.round(p.level * 100)}_pct`, p.pct],
+            ['monte_carlo', `p${Math.round(p.level * 100)}_${report.target.unitKey}`, p.value]
+          ]),
+          ...report.monteCarlo.thresholds.map(t => ['monte_carlo', `prob_below_${t.value}_${report.target.unitKey}`, t.probability])
+        ]
+      : []),
+    ...(report.reservoir
+      ? [
+          ['reservoir', 'start_elevation_ft', report.reservoir.startElevation],
+          ['reservoir', 'start_storage_MAF', report.reservoir.startStorage],
+          ['reservoir', 'inflow_MAF', report.reservoir.inflow],
+          ['reservoir', 'release_MAF', report.reservoir.release],
+          ['reservoir', 'evaporation_MAF', report.reservoir.evaporation],
+          ['reservoir', 'end_storage_MAF', report.reservoir.endStorage],
+          ['reservoir', 'end_elevation_ft', report.reservoir.endElevation],
+          ['reservoir', 'end_tier', report.reservoir.endTier],
+          ...report.reservoir.crossings.map(c => ['reservoir', `crosses_${c.elevation}_ft`, c.direction])
+        ]
+      : []),
+    ['contributions', 'swe', report.contributions.swe],
+    ['contributions', 'fallSM', report.contributions.fallSM],
+    ['contributions', 'springPrecip', report.contributions.springPrecip],
+    ...report.coefficients.flatMap(c => [
+      ['coefficients', `${c.term}_estimate`, c.estimate],
+      ['coefficients', `${c.term}_se`, c.se],
+      ['coefficients', `${c.term}_p_value`, c.pValue]
+    ]),
+    ...(report.fitStatistics
+      ? Object.entries(report.fitStatistics).map(([key, value]) => ['fit', key, value])
+      : []),
+    ...report.warnings.map(w => ['warnings', 'range', w]),
+    ['disclaimer', 'text', report.disclaimer]
+  ];
+  return Papa.unparse({ fields: ['section', 'field', 'value'], data: rows });
+};
+
+const SCENARIO_STORAGE_KEY = 'powell-analyzer:scenarios';
+
+// Marker styles for saved scenarios on the scatter chart, cycled in save order
+const SCENARIO_MARKERS = [
+  { color: '#7c3aed', shape: 'diamond' },
+  { color: '#059669', shape: 'triangle' },
+  { color: '#db2777', shape: 'square' },
+  { color: '#0f766e', shape: 'wye' },
+  { color: '#b45309', shape: 'cross' }
+];
+
+const loadSavedScenarios = () => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(SCENARIO_STORAGE_KEY));
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// Canonical rows together with their quality findings, the handling chosen per issue and the cleaned rows
+const buildDataset = (name, source, rawRows, actions = {}) => ({ name, source, rawRows, ...prepareDataset(rawRows, actions) });
+
+const ISSUE_ACTION_LABELS: Record<IssueAction, string> = {
+  exclude: 'Exclude row',
+  interpolate: 'Interpolate',
+  keep: 'Keep as is',
+  block: 'Block (data unusable)'
+};
 
 const LakePowellInflowTool = () => {
+  const [urlScenario] = useState(readScenarioFromUrl);
   const [historicalData, setHistoricalData] = useState(null);
+  const [dataset, setDataset] = useState(null);
+  const [bundledDataset, setBundledDataset] = useState(null);
+  const [dataReportOpen, setDataReportOpen] = useState(false);
+  const [pendingUpload, setPendingUpload] = useState(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [baselineStart, setBaselineStart] = useState(urlScenario.baseline?.start ?? DEFAULT_BASELINE.start);
+  const [baselineEnd, setBaselineEnd] = useState(urlScenario.baseline?.end ?? DEFAULT_BASELINE.end);
+  const [customBaseline, setCustomBaseline] = useState(false);
+  const [baselineMessage, setBaselineMessage] = useState(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
   
-  const [sweApr1Pct, setSweApr1Pct] = useState(100);
-  const [fallSMPct, setFallSMPct] = useState(100);
-  const [springPrecipPct, setSpringPrecipPct] = useState(100);
+  const [sweApr1Pct, setSweApr1Pct] = useState(urlScenario.swe ?? 100);
+  const [fallSMPct, setFallSMPct] = useState(urlScenario.fallSM ?? 100);
+  const [springPrecipPct, setSpringPrecipPct] = useState(urlScenario.springPrecip ?? 100);
+  const [selectedYear, setSelectedYear] = useState(urlScenario.year);
   const [forecastedFlowPct, setForecastedFlowPct] = useState(100);
-  const [forecastedFlowMM, setForecastedFlowMM] = useState(0);
+  const [forecastedFlowValue, setForecastedFlowValue] = useState(0);
+  // Set when the model cannot be fitted or predict the scenario; the forecast fields then hold placeholders
+  const [modelUnavailable, setModelUnavailable] = useState(false);
   const [analogYears, setAnalogYears] = useState([]);
-  const [regressionBeta, setRegressionBeta] = useState([0, 0, 0]);
+  const [analogForecast, setAnalogForecast] = useState(null);
+  const [analogK, setAnalogK] = useState(urlScenario.k ?? 5);
+  const [analogWeights, setAnalogWeights] = useState({ swe: 1, fallSM: 1, springPrecip: 1 });
+  const [regressionBeta, setRegressionBeta] = useState([]);
+  const [regressionFit, setRegressionFit] = useState(null);
+  const [useIntercept, setUseIntercept] = useState(urlScenario.intercept ?? true);
+  const [forecastIntervals, setForecastIntervals] = useState([]);
+  const [rangeWarnings, setRangeWarnings] = useState([]);
+  const [forecastTarget, setForecastTarget] = useState<TargetKey>(urlScenario.target ?? 'annual');
+  const [modelForm, setModelForm] = useState<ModelFormKey>(urlScenario.model ?? 'linear');
+  const urlInitialized = useRef(false);
+  // Set when the dataset effect replaces a setting the dataset can't use; see the address bar effect
+  const urlFallback = useRef<'requested' | 'applied' | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [activeModel, setActiveModel] = useState(null);
+  const [savedScenarios, setSavedScenarios] = useState(loadSavedScenarios);
+  const [comparedScenarioIds, setComparedScenarioIds] = useState([]);
+  const [scenarioName, setScenarioName] = useState('');
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const [chartTab, setChartTab] = useState('scatter');
+  const [tsVariableKey, setTsVariableKey] = useState('annual');
+  const [tsWindow, setTsWindow] = useState({ start: null, end: null });
+  const [tsMovingAverage, setTsMovingAverage] = useState(0);
+  const [tsShowTrend, setTsShowTrend] = useState(true);
+  const [tsShowPct, setTsShowPct] = useState(false);
+  const [scatterEncoding, setScatterEncoding] = useState(urlScenario.scatter ?? DEFAULT_SCATTER_ENCODING);
+  const [scatterShowPct, setScatterShowPct] = useState(urlScenario.scatterPct);
+  const [exportError, setExportError] = useState(null);
+  const scatterChartRef = useRef(null);
+  const [modelComparison, setModelComparison] = useState([]);
+  // Water years left out of model training; they stay in the baseline and on the charts
+  const [excludedYears, setExcludedYears] = useState<number[]>(urlScenario.exclude);
+  const [influence, setInfluence] = useState([]);
+  const [hindcastMode, setHindcastMode] = useState(false);
+  const [hindcast, setHindcast] = useState(null);
+  const [basin, setBasin] = useState(urlScenario.basin ?? '');
+  const [basinAreas, setBasinAreas] = useState({});
+  const [aggregateExcluded, setAggregateExcluded] = useState([]);
+  const [basinAggregate, setBasinAggregate] = useState(null);
+  const [displayUnit, setDisplayUnit] = useState<DisplayUnitKey | 'native'>(urlScenario.unit ?? 'native');
+  const [drainageArea, setDrainageArea] = useState(urlScenario.area ? String(urlScenario.area) : '');
+  const [issueDate, setIssueDate] = useState<IssueDateKey>(urlScenario.issueDate ?? DEFAULT_ISSUE_DATE);
+  const [seasonSkill, setSeasonSkill] = useState([]);
+  const [espMode, setEspMode] = useState(urlScenario.esp);
+  const [espForecast, setEspForecast] = useState(null);
+  const [monteCarloMode, setMonteCarloMode] = useState(urlScenario.monteCarlo);
+  const [inputUncertainty, setInputUncertainty] = useState(urlScenario.uncertainty ?? DEFAULT_INPUT_UNCERTAINTY);
+  const [monteCarloResidual, setMonteCarloResidual] = useState(urlScenario.residual);
+  const [monteCarloThresholds, setMonteCarloThresholds] = useState(urlScenario.monteCarloThresholds ?? '');
+  const [monteCarlo, setMonteCarlo] = useState(null);
+  const [powellInflowMAF, setPowellInflowMAF] = useState(null);
+  const [sensitivity, setSensitivity] = useState(null);
+  const [surfaceAxes, setSurfaceAxes] = useState(['swe', 'fallSM']);
+  const [reservoirStartMode, setReservoirStartMode] = useState('elevation');
+  const [reservoirStart, setReservoirStart] = useState('3560');
+  const [reservoirInflow, setReservoirInflow] = useState('');
+  const [calibrationMethod, setCalibrationMethod] = useState<CalibrationMethod>(urlScenario.calibration ?? 'linear');
+  const [probabilityMethod, setProbabilityMethod] = useState<ProbabilityMethod>(urlScenario.probability ?? 'residual');
+  const [riskThresholds, setRiskThresholds] = useState(urlScenario.riskThresholds ?? '');
+  const [categories, setCategories] = useState(null);
+  const [reliability, setReliability] = useState([]);
+  // VIC flow -> observed inflow mappings for the current flow target, one per method
+  const [inflowCalibrations, setInflowCalibrations] = useState({});
+  const [reservoirRelease, setReservoirRelease] = useState('7.48');
 
   useEffect(() => {
     const loadData = async () => {
@@ -26,99 +432,18 @@ const LakePowellInflowTool = () => {
           throw new Error(`Failed to load CSV file: ${response.statusText}`);
         }
         
-        const csvText = await response.text();
+        const { rows, columns } = parseCsv(await response.text());
+        const mapping = guessColumnMapping(columns);
+        const errors = validateColumnMapping(mapping);
+        if (errors.length > 0) {
+          setError(`Bundled dataset failed validation: ${errors.join(' ')}`);
+          setLoading(false);
+          return;
+        }
         
-        Papa.parse(csvText, {
-          header: true,
-          dynamicTyping: true,
-          skipEmptyLines: true,
-          complete: (results) => {
-            const data = results.data.filter(d => d.water_year);
-            
-            const baselineData = data.filter(d => d.water_year >= 1991 && d.water_year <= 2020);
-            
-            const means = {
-              swe: baselineData.reduce((sum, d) => sum + d.apr1_swe_mm, 0) / baselineData.length,
-              fallSM: baselineData.reduce((sum, d) => sum + d.fall_sm_oct_nov_avg_mm, 0) / baselineData.length,
-              springPrecip: baselineData.reduce((sum, d) => sum + d.spring_precip_apr_jul_mm, 0) / baselineData.length,
-              streamflow: baselineData.reduce((sum, d) => sum + d.total_streamflow_mm, 0) / baselineData.length
-            };
-            
-            const processedData = data.map(d => ({
-              year: d.water_year,
-              swe_mm: d.apr1_swe_mm,
-              fallSM_mm: d.fall_sm_oct_nov_avg_mm,
-              springPrecip_mm: d.spring_precip_apr_jul_mm,
-              streamflow_mm: d.total_streamflow_mm,
-              swe_pct: (d.apr1_swe_mm / means.swe) * 100,
-              fallSM_pct: (d.fall_sm_oct_nov_avg_mm / means.fallSM) * 100,
-              springPrecip_pct: (d.spring_precip_apr_jul_mm / means.springPrecip) * 100,
-              streamflow_pct: (d.total_streamflow_mm / means.streamflow) * 100
-            }));
-            
-            const ranges = {
-              swe_pct: {
-                min: Math.min(...processedData.map(d => d.swe_pct)),
-                max: Math.max(...processedData.map(d => d.swe_pct)),
-                mean: 100
-              },
-              fallSM_pct: {
-                min: Math.min(...processedData.map(d => d.fallSM_pct)),
-                max: Math.max(...processedData.map(d => d.fallSM_pct)),
-                mean: 100
-              },
-              springPrecip_pct: {
-                min: Math.min(...processedData.map(d => d.springPrecip_pct)),
-                max: Math.max(...processedData.map(d => d.springPrecip_pct)),
-                mean: 100
-              },
-              streamflow_pct: {
-                min: Math.min(...processedData.map(d => d.streamflow_pct)),
-                max: Math.max(...processedData.map(d => d.streamflow_pct)),
-                mean: 100
-              }
-            };
-            
-            const createHistogram = (values, numBins = 15) => {
-              const min = Math.min(...values);
-              const max = Math.max(...values);
-              const binWidth = (max - min) / numBins;
-              const bins = Array(numBins).fill(0);
-              
-              values.forEach(v => {
-                const binIndex = Math.min(Math.floor((v - min) / binWidth), numBins - 1);
-                bins[binIndex]++;
-              });
-              
-              return bins.map((count, i) => ({
-                value: min + (i + 0.5) * binWidth,
-                count: count,
-                binStart: min + i * binWidth,
-                binEnd: min + (i + 1) * binWidth
-              }));
-            };
-            
-            const histograms = {
-              swe: createHistogram(processedData.map(d => d.swe_pct)),
-              fallSM: createHistogram(processedData.map(d => d.fallSM_pct)),
-              springPrecip: createHistogram(processedData.map(d => d.springPrecip_pct)),
-              streamflow: createHistogram(processedData.map(d => d.streamflow_pct))
-            };
-            
-            setHistoricalData({
-              years: processedData,
-              means: means,
-              ranges: ranges,
-              histograms: histograms
-            });
-            setForecastedFlowMM(means.streamflow);
-            setLoading(false);
-          },
-          error: (err) => {
-            setError(`Error parsing CSV: ${err.message}`);
-            setLoading(false);
-          }
-        });
+        const bundled = buildDataset('water_year_metrics.csv', 'bundled', applyColumnMapping(rows, mapping));
+        setBundledDataset(bundled);
+        setDataset(bundled);
       } catch (err) {
         setError(`Error loading file: ${err.message}. Make sure water_year_metrics.csv is in the public folder.`);
         setLoading(false);
@@ -128,92 +453,482 @@ const LakePowellInflowTool = () => {
     loadData();
   }, []);
 
+  useEffect(() => {
+    if (!dataset) return;
+    // This run sees the state a fallback requested on the previous run
+    if (urlFallback.current === 'requested') urlFallback.current = 'applied';
+    // Multi-basin files are fitted one basin at a time
+    const basins = datasetBasins(dataset.rows);
+    if (basins.length > 0 ? !basins.includes(basin) : basin !== '') {
+      urlFallback.current = 'requested';
+      setBasin(basins[0] ?? '');
+      return;
+    }
+    const rows = basinRows(dataset.rows, basin);
+    // A baseline from a shared link may not fit this dataset; fall back to the default normal
+    const baselineCount = rows.filter(r => r.water_year >= baselineStart && r.water_year <= baselineEnd).length;
+    const isDefaultBaseline = baselineStart === DEFAULT_BASELINE.start && baselineEnd === DEFAULT_BASELINE.end;
+    if ((baselineStart > baselineEnd || baselineCount < MIN_BASELINE_YEARS) && !isDefaultBaseline) {
+      setBaselineMessage(`${baselineStart}-${baselineEnd} does not fit ${dataset.name}; using the ${DEFAULT_BASELINE.start}-${DEFAULT_BASELINE.end} normal instead.`);
+      urlFallback.current = 'requested';
+      setBaselineStart(DEFAULT_BASELINE.start);
+      setBaselineEnd(DEFAULT_BASELINE.end);
+      return;
+    }
+    // Likewise an issue date whose columns this dataset lacks falls back to April 1
+    if (!availableIssueDates(rows).includes(issueDate) && issueDate !== DEFAULT_ISSUE_DATE) {
+      urlFallback.current = 'requested';
+      setIssueDate(DEFAULT_ISSUE_DATE);
+      return;
+    }
+    const problems = [
+      ...dataset.blocked.map(issue => issue.message),
+      ...validateDatasetSize(rows, { start: baselineStart, end: baselineEnd })
+    ];
+    if (problems.length > 0) {
+      setError(`${dataset.name}${basin ? ` (${basin})` : ''} cannot be used: ${problems.join(' ')}`);
+      setLoading(false);
+      return;
+    }
+    setError(null);
+    const processed = processDataset(rows, { start: baselineStart, end: baselineEnd }, issueDate, excludedYears);
+    setHistoricalData(processed);
+    setLoading(false);
+    if (!processed.availableTargets.includes(forecastTarget)) {
+      urlFallback.current = 'requested';
+      setForecastTarget(processed.availableTargets[0]);
+    }
+  }, [dataset, basin, baselineStart, baselineEnd, issueDate, excludedYears]);
+
+  const handleFileSelected = async (file) => {
+    if (!file) return;
+    try {
+      const { rows, columns } = parseCsv(await file.text());
+      setPendingUpload({
+        fileName: file.name,
+        columns: columns,
+        rows: rows,
+        mapping: guessColumnMapping(columns),
+        errors: []
+      });
+    } catch (err) {
+      setPendingUpload({ fileName: file.name, columns: [], rows: [], mapping: {}, errors: [`Error parsing CSV: ${err.message}`] });
+    }
+  };
+
+  const applyPendingUpload = () => {
+    const mappingErrors = validateColumnMapping(pendingUpload.mapping);
+    if (mappingErrors.length > 0) {
+      setPendingUpload({ ...pendingUpload, errors: mappingErrors });
+      return;
+    }
+    const candidate = buildDataset(pendingUpload.fileName, 'upload', applyColumnMapping(pendingUpload.rows, pendingUpload.mapping));
+    // Check the basin that will be shown first: the current one if the file has it, else its first basin
+    const basins = datasetBasins(candidate.rows);
+    const firstBasin = basins.includes(basin) ? basin : (basins[0] ?? '');
+    const errors = [
+      ...candidate.blocked.map(issue => issue.message),
+      ...validateDatasetSize(basinRows(candidate.rows, firstBasin), { start: baselineStart, end: baselineEnd })
+    ];
+    if (errors.length > 0) {
+      setPendingUpload({ ...pendingUpload, errors });
+      return;
+    }
+    setDataset(candidate);
+    setExcludedYears([]);
+    setBasinAreas({});
+    setAggregateExcluded([]);
+    setDataReportOpen(candidate.issues.length > 0);
+    setPendingUpload(null);
+  };
+
+  // Only accept windows that leave enough water years of the active dataset to define a normal. Windows
+  // reaching past the loaded record are clamped to it; rejected windows leave the baseline unchanged and say why.
+  const applyBaseline = (start, end) => {
+    const waterYears = basinRows(dataset.rows, basin).map(r => r.water_year);
+    const first = Math.min(...waterYears);
+    const last = Math.max(...waterYears);
+    if (start > end) {
+      setBaselineMessage(`The window must start before it ends; ${start} is after ${end}.`);
+      return;
+    }
+    const clampedStart = Math.max(start, first);
+    const clampedEnd = Math.min(end, last);
+    const count = waterYears.filter(y => y >= clampedStart && y <= clampedEnd).length;
+    if (count < MIN_BASELINE_YEARS) {
+      setBaselineMessage(
+        `${clampedStart}-${clampedEnd} holds only ${count} water year${count === 1 ? '' : 's'} of this dataset; a normal needs at least ${MIN_BASELINE_YEARS}.`
+      );
+      return;
+    }
+    setBaselineStart(clampedStart);
+    setBaselineEnd(clampedEnd);
+    setBaselineMessage(clampedStart !== start || clampedEnd !== end
+      ? `The data cover ${first}-${last}, so ${start}-${end} was clamped to ${clampedStart}-${clampedEnd}.`
+      : null);
+  };
+
+  // Only allow exclusions that leave enough training years to fit every model form
+  const toggleYearExcluded = (year) => {
+    if (excludedYears.includes(year)) {
+      setExcludedYears(excludedYears.filter(y => y !== year));
+      return;
+    }
+    if (trainingYears(historicalData.years).length <= MIN_DATASET_YEARS) return;
+    setExcludedYears([...excludedYears, year].sort((a, b) => a - b));
+  };
+
   useEffect(() => {
     if (!historicalData) return;
-    const { years, means, ranges } = historicalData;
+    const targetMean = historicalData.means[FORECAST_TARGETS[forecastTarget].meanKey];
+    const scenario = { swe: sweApr1Pct, fallSM: fallSMPct, springPrecip: springPrecipPct };
     
-    const X = years.map(y => [
-      y.swe_pct - 100,
-      y.fallSM_pct - 100,
-      y.springPrecip_pct - 100
-    ]);
-    const Y = years.map(y => y.streamflow_pct - 100);
+    const model = fitForecastModel(historicalData, { target: forecastTarget, form: modelForm, intercept: useIntercept });
+    const fit = model ? model.fit : null;
     
-    const n = X.length;
-    let beta = [0, 0, 0];
+    setRegressionBeta(fit ? fit.beta : []);
+    setRegressionFit(fit);
+    setActiveModel(model);
+    setInfluence(influenceDiagnostics(model, historicalData.years));
     
-    for (let i = 0; i < 3; i++) {
-      let sumXY = 0, sumX2 = 0;
-      for (let j = 0; j < n; j++) {
-        sumXY += X[j][i] * Y[j];
-        sumX2 += X[j][i] * X[j][i];
-      }
-      beta[i] = sumX2 > 0 ? sumXY / sumX2 : 0;
-    }
+    const forecast = model ? forecastScenario(historicalData, model, scenario) : null;
+    const available = forecast !== null && Number.isFinite(forecast.pct);
+    const forecastPct = available ? forecast.pct : 100;
     
-    setRegressionBeta(beta);
+    setModelUnavailable(!available);
+    setForecastedFlowPct(forecastPct);
+    setForecastedFlowValue((forecastPct / 100) * targetMean);
+    setForecastIntervals(available ? forecast.intervals : []);
     
-    const sweContrib = (sweApr1Pct - 100) * beta[0];
-    const fallContrib = (fallSMPct - 100) * beta[1];
-    const springContrib = (springPrecipPct - 100) * beta[2];
+    // Flag extrapolation instead of clamping the forecast into the historical range
+    setRangeWarnings(available ? extrapolationWarnings(historicalData, scenario, forecastTarget, forecastPct) : []);
+
+    const analogResult = findScenarioAnalogs(historicalData, scenario, {
+      k: analogK,
+      weights: analogWeights,
+      target: forecastTarget
+    });
     
-    const forecastPct = Math.max(
-      ranges.streamflow_pct.min,
-      Math.min(ranges.streamflow_pct.max, 100 + sweContrib + fallContrib + springContrib)
-    );
+    setAnalogForecast(analogResult);
+    setAnalogYears(analogResult.analogs);
+  }, [sweApr1Pct, fallSMPct, springPrecipPct, historicalData, useIntercept, forecastTarget, modelForm, analogK, analogWeights]);
+
+  useEffect(() => {
+    if (!historicalData) return;
+    const years = trainingYears(historicalData.years);
+    const target = FORECAST_TARGETS[forecastTarget];
+    const observed = years.map(y => y[target.pctKey]);
     
-    setForecastedFlowPct(forecastPct);
-    setForecastedFlowMM((forecastPct / 100) * means.streamflow);
+    // Fit statistics are compared in % of average so log-space and local forms are on the same scale
+    const rows = Object.keys(MODEL_FORMS).map(form => {
+      const model = fitModel(form, years, { intercept: useIntercept, target, skipVif: true });
+      const hindcastResults = leaveOneOutHindcast(years, { intercept: useIntercept, target, form });
+      const inSample = model ? skillScores(observed, model.fitted) : null;
+      return {
+        form,
+        r2: inSample ? inSample.nse : NaN,
+        rmse: inSample ? inSample.rmse : NaN,
+        cv: skillScores(observed, hindcastResults.map(r => r.hindcast))
+      };
+    });
+    setModelComparison(rows);
+  }, [historicalData, useIntercept, forecastTarget]);
+
+  useEffect(() => {
+    if (!historicalData) return;
+    setSeasonSkill(seasonalSkill(basinRows(dataset.rows, basin), historicalData.baseline, {
+      intercept: useIntercept,
+      target: FORECAST_TARGETS[forecastTarget],
+      form: modelForm,
+      excludedYears
+    }));
+  }, [historicalData, useIntercept, forecastTarget, modelForm]);
+
+  useEffect(() => {
+    if (!historicalData || !hindcastMode) return;
+    const { years, means } = historicalData;
+    const target = FORECAST_TARGETS[forecastTarget];
+    
+    const results = leaveOneOutHindcast(trainingYears(years), { intercept: useIntercept, target, form: modelForm }).map(r => ({
+      ...r,
+      observedValue: (r.observed / 100) * means[target.meanKey],
+      hindcastValue: (r.hindcast / 100) * means[target.meanKey]
+    }));
+    const scores = skillScores(results.map(r => r.observed), results.map(r => r.hindcast));
+    
+    setHindcast({
+      results,
+      scores,
+      scoresValue: skillScores(results.map(r => r.observedValue), results.map(r => r.hindcastValue))
+    });
+  }, [historicalData, hindcastMode, useIntercept, forecastTarget, modelForm]);
 
-    const analogs = years.filter(y => 
-      Math.abs(y.swe_pct - sweApr1Pct) <= 15 &&
-      Math.abs(y.fallSM_pct - fallSMPct) <= 15 &&
-      Math.abs(y.springPrecip_pct - springPrecipPct) <= 15
-    ).sort((a, b) => b.streamflow_mm - a.streamflow_mm).slice(0, 5);
+  useEffect(() => {
+    if (!historicalData || !espMode || !activeModel) return;
+    const { years, means } = historicalData;
+    const targetMean = means[FORECAST_TARGETS[forecastTarget].meanKey];
+    const ensemble = espEnsemble(activeModel, years, [sweApr1Pct, fallSMPct]);
     
-    setAnalogYears(analogs);
-  }, [sweApr1Pct, fallSMPct, springPrecipPct, historicalData]);
+    setEspForecast({
+      traces: ensemble.traces.map(t => ({ ...t, value: (t.pct / 100) * targetMean })),
+      exceedance: ensemble.exceedance.map(e => ({ ...e, value: (e.pct / 100) * targetMean }))
+    });
+  }, [historicalData, espMode, activeModel, sweApr1Pct, fallSMPct, forecastTarget]);
+
+  useEffect(() => {
+    if (!historicalData || !activeModel) return;
+    const { years } = historicalData;
+    const pcts = [sweApr1Pct, fallSMPct, springPrecipPct];
+    setSensitivity({
+      atAverage: activeModel.predict([100, 100, 100]).pct,
+      tornado: tornadoSensitivity(activeModel, years, pcts),
+      surface: responseSurface(activeModel, years, pcts, surfaceAxes)
+    });
+  }, [historicalData, activeModel, sweApr1Pct, fallSMPct, springPrecipPct, surfaceAxes]);
+
+  // Display units: 'native' keeps each quantity in its own unit (mm depths, MAF inflow). Depth-volume
+  // conversions use the entered drainage area, else the basin's area, else the Lees Ferry drainage.
+  const basinArea = basin && dataset ? (basin in basinAreas ? parseFloat(basinAreas[basin]) : basinDrainageAreas(dataset.rows)[basin]) : null;
+  const drainageAreaKm2 = parseFloat(drainageArea) > 0 ? parseFloat(drainageArea) : basinArea > 0 ? basinArea : DEFAULT_DRAINAGE_AREA_KM2;
+  const unitFor = (nativeUnit) => (displayUnit === 'native' ? nativeUnit : displayUnit);
+  const toDisplayUnits = (value, nativeUnit, areaKm2 = drainageAreaKm2) => convertUnits(value, nativeUnit, unitFor(nativeUnit), areaKm2);
+  const formatUnits = (value, nativeUnit, withUnit = true, areaKm2 = drainageAreaKm2) => {
+    const unit = DISPLAY_UNITS[unitFor(nativeUnit)];
+    const text = toDisplayUnits(value, nativeUnit, areaKm2).toLocaleString('en-US', {
+      minimumFractionDigits: unit.decimals,
+      maximumFractionDigits: unit.decimals
+    });
+    return withUnit ? `${text} ${unit.label}` : text;
+  };
+
+  useEffect(() => {
+    if (!historicalData || !activeModel || !monteCarloMode) {
+      setMonteCarlo(null);
+      return;
+    }
+    // Thresholds are typed in the displayed target units, separated by commas or spaces
+    const targetUnit = FORECAST_TARGETS[forecastTarget].unit;
+    const thresholds = monteCarloThresholds.split(/[\s,;]+/).map(parseFloat).filter(v => Number.isFinite(v) && v > 0)
+      .map(v => convertUnits(v, unitFor(targetUnit), targetUnit, drainageAreaKm2));
+    setMonteCarlo(monteCarloScenario(historicalData, activeModel, { swe: sweApr1Pct, fallSM: fallSMPct, springPrecip: springPrecipPct }, {
+      uncertainty: inputUncertainty,
+      residual: monteCarloResidual,
+      thresholds
+    }));
+  }, [historicalData, activeModel, monteCarloMode, inputUncertainty, monteCarloResidual, monteCarloThresholds, displayUnit, drainageAreaKm2, sweApr1Pct, fallSMPct, springPrecipPct]);
+
+  // Drought-risk thresholds are typed in the displayed target units and passed on in the target's own
+  const riskThresholdValues = historicalData
+    ? riskThresholds.split(/[\s,;]+/).map(parseFloat).filter(v => Number.isFinite(v) && v > 0)
+      .map(v => convertUnits(v, unitFor(FORECAST_TARGETS[forecastTarget].unit), FORECAST_TARGETS[forecastTarget].unit, drainageAreaKm2))
+    : [];
+  const probabilityOptions = { target: forecastTarget, form: modelForm, intercept: useIntercept, method: probabilityMethod, thresholds: riskThresholdValues };
+
+  useEffect(() => {
+    if (!historicalData) return;
+    setCategories(categoryForecast(historicalData, { swe: sweApr1Pct, fallSM: fallSMPct, springPrecip: springPrecipPct }, probabilityOptions));
+  }, [historicalData, forecastTarget, modelForm, useIntercept, probabilityMethod, riskThresholds, displayUnit, drainageAreaKm2, sweApr1Pct, fallSMPct, springPrecipPct]);
+
+  useEffect(() => {
+    if (!historicalData) return;
+    setReliability(categoryReliability(historicalData, probabilityOptions));
+  }, [historicalData, forecastTarget, modelForm, useIntercept, probabilityMethod, riskThresholds, displayUnit, drainageAreaKm2]);
+
+  // Every basin forecast with the current settings and added up as a Lake Powell total
+  useEffect(() => {
+    const basins = historicalData ? datasetBasins(dataset.rows) : [];
+    if (basins.length < 2) {
+      setBasinAggregate(null);
+      return;
+    }
+    const fileAreas = basinDrainageAreas(dataset.rows);
+    const areas = Object.fromEntries(basins.map(b => [b, b in basinAreas ? parseFloat(basinAreas[b]) : fileAreas[b]]));
+    setBasinAggregate(forecastBasinAggregate(dataset.rows, {
+      basins: basins.filter(b => !aggregateExcluded.includes(b)),
+      areas,
+      baseline: { start: baselineStart, end: baselineEnd },
+      issueDate: historicalData.issueDate,
+      scenario: { swe: sweApr1Pct, fallSM: fallSMPct, springPrecip: springPrecipPct },
+      year: selectedYear,
+      target: forecastTarget,
+      form: modelForm,
+      intercept: useIntercept
+    }));
+  }, [historicalData, basinAreas, aggregateExcluded, sweApr1Pct, fallSMPct, springPrecipPct, selectedYear, forecastTarget, modelForm, useIntercept]);
+
+  useEffect(() => {
+    if (!historicalData || forecastTarget === 'inflow') {
+      setInflowCalibrations({});
+      return;
+    }
+    setInflowCalibrations(Object.fromEntries(Object.keys(CALIBRATION_METHODS).map(method => [
+      method,
+      calibrateInflow(historicalData, { method: method as CalibrationMethod, source: forecastTarget })
+    ])));
+  }, [historicalData, forecastTarget]);
+
+  // Powell inflow for the current inputs, whatever the selected target, feeds the reservoir projection
+  useEffect(() => {
+    if (!historicalData || !historicalData.availableTargets.includes('inflow')) {
+      setPowellInflowMAF(null);
+      return;
+    }
+    const model = forecastTarget === 'inflow'
+      ? activeModel
+      : fitForecastModel(historicalData, { target: 'inflow', form: modelForm, intercept: useIntercept });
+    const forecast = model ? forecastScenario(historicalData, model, { swe: sweApr1Pct, fallSM: fallSMPct, springPrecip: springPrecipPct }) : null;
+    setPowellInflowMAF(forecast && Number.isFinite(forecast.pct) ? forecast.value : null);
+  }, [historicalData, activeModel, forecastTarget, modelForm, useIntercept, sweApr1Pct, fallSMPct, springPrecipPct]);
+
+  useEffect(() => {
+    const query = scenarioToQuery({
+      swe: sweApr1Pct,
+      fallSM: fallSMPct,
+      springPrecip: springPrecipPct,
+      year: selectedYear,
+      target: forecastTarget,
+      model: modelForm,
+      intercept: useIntercept,
+      baseline: { start: baselineStart, end: baselineEnd },
+      k: analogK,
+      basin,
+      issueDate,
+      exclude: excludedYears,
+      esp: espMode,
+      unit: displayUnit,
+      area: parseFloat(drainageArea) > 0 ? parseFloat(drainageArea) : null,
+      calibration: calibrationMethod,
+      probability: probabilityMethod,
+      riskThresholds,
+      monteCarlo: monteCarloMode,
+      uncertainty: inputUncertainty,
+      residual: monteCarloResidual,
+      monteCarloThresholds,
+      scatter: scatterEncoding,
+      scatterPct: scatterShowPct
+    });
+    // The state is about to be replaced by a dataset fallback, so there is nothing worth writing yet
+    if (urlFallback.current === 'requested') return;
+    // The first write and the fallbacks only normalise the address; later writes are debounced so a
+    // slider drag is one history entry
+    const normalising = !urlInitialized.current || urlFallback.current === 'applied';
+    urlInitialized.current = true;
+    urlFallback.current = null;
+    if (query === window.location.search) return;
+    if (normalising) {
+      window.history.replaceState(null, '', query + window.location.hash);
+      return;
+    }
+    const timer = setTimeout(() => window.history.pushState(null, '', query + window.location.hash), 400);
+    return () => clearTimeout(timer);
+  }, [
+    sweApr1Pct, fallSMPct, springPrecipPct, selectedYear, forecastTarget, modelForm, useIntercept, baselineStart, baselineEnd, analogK,
+    basin, issueDate, excludedYears, espMode, displayUnit, drainageArea, calibrationMethod, probabilityMethod, riskThresholds,
+    monteCarloMode, inputUncertainty, monteCarloResidual, monteCarloThresholds, scatterEncoding, scatterShowPct
+  ]);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(SCENARIO_STORAGE_KEY, JSON.stringify(savedScenarios));
+    } catch {
+      // Storage can be full or disabled (private browsing); the library then lasts for the session only
+    }
+  }, [savedScenarios]);
+
+  useEffect(() => {
+    const onPopState = () => {
+      const scenario = readScenarioFromUrl();
+      setSweApr1Pct(scenario.swe ?? 100);
+      setFallSMPct(scenario.fallSM ?? 100);
+      setSpringPrecipPct(scenario.springPrecip ?? 100);
+      setSelectedYear(scenario.year);
+      setForecastTarget(scenario.target ?? 'annual');
+      setModelForm(scenario.model ?? 'linear');
+      setUseIntercept(scenario.intercept ?? true);
+      setBaselineStart(scenario.baseline?.start ?? DEFAULT_BASELINE.start);
+      setBaselineEnd(scenario.baseline?.end ?? DEFAULT_BASELINE.end);
+      setAnalogK(scenario.k ?? 5);
+      setBasin(scenario.basin ?? '');
+      setIssueDate(scenario.issueDate ?? DEFAULT_ISSUE_DATE);
+      setExcludedYears(scenario.exclude);
+      setEspMode(scenario.esp);
+      setDisplayUnit(scenario.unit ?? 'native');
+      setDrainageArea(scenario.area ? String(scenario.area) : '');
+      setCalibrationMethod(scenario.calibration ?? 'linear');
+      setProbabilityMethod(scenario.probability ?? 'residual');
+      setRiskThresholds(scenario.riskThresholds ?? '');
+      setMonteCarloMode(scenario.monteCarlo);
+      setInputUncertainty(scenario.uncertainty ?? DEFAULT_INPUT_UNCERTAINTY);
+      setMonteCarloResidual(scenario.residual);
+      setMonteCarloThresholds(scenario.monteCarloThresholds ?? '');
+      setScatterEncoding(scenario.scatter ?? DEFAULT_SCATTER_ENCODING);
+      setScatterShowPct(scenario.scatterPct);
+      if (!scenario.esp) setChartTab(tab => (tab === 'esp' ? 'scatter' : tab));
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const target = FORECAST_TARGETS[forecastTarget];
+  const modelSpec = MODEL_FORMS[modelForm];
 
   const CustomTooltip = ({ active, payload }) => {
     if (active && payload && payload.length > 0) {
       const data = payload[0].payload;
       const isForecast = data.year === 'Forecast';
       
+      if (data.year === 'Saved') {
+        return (
+          <div className="bg-white p-4 border-2 rounded-lg shadow-lg" style={{ borderColor: data.scenario.marker.color }}>
+            <p className="font-bold" style={{ color: data.scenario.marker.color }}>{data.scenario.name}</p>
+            <p className="text-sm">SWE: {data.scenario.inputs.swe.toFixed(0)}% of avg</p>
+            <p className="text-sm">Fall SM: {data.scenario.inputs.fallSM.toFixed(0)}% of avg</p>
+            <p className="text-sm">{issueSpec.precipShortLabel}: {data.scenario.inputs.springPrecip.toFixed(0)}% of avg</p>
+            <p className="font-semibold mt-2">{target.shortLabel}: {data.scenario.currentPct.toFixed(0)}% of avg</p>
+          </div>
+        );
+      }
+      
       if (isForecast) {
         return (
           <div className="bg-white p-4 border-2 border-red-500 rounded-lg shadow-lg">
             <p className="font-bold text-red-600">Current Forecast</p>
             <p className="text-sm">SWE: {sweApr1Pct.toFixed(0)}% of avg</p>
             <p className="text-sm">Fall SM: {fallSMPct.toFixed(0)}% of avg</p>
-            <p className="text-sm">Spring Precip: {springPrecipPct.toFixed(0)}% of avg</p>
-            <p className="font-semibold mt-2">Streamflow: {forecastedFlowPct.toFixed(0)}% of avg</p>
+            <p className="text-sm">{issueSpec.precipShortLabel}: {springPrecipPct.toFixed(0)}% of avg</p>
+            <p className="font-semibold mt-2">{target.shortLabel}: {forecastedFlowPct.toFixed(0)}% of avg</p>
+            {forecastIntervals.length > 0 && (
+              <p className="text-xs text-gray-600 mt-1">
+                95% interval: {forecastIntervals[forecastIntervals.length - 1].lowPct.toFixed(0)}–{forecastIntervals[forecastIntervals.length - 1].highPct.toFixed(0)}%
+              </p>
+            )}
           </div>
         );
       }
       
-      const sweContrib = data.swe_pct - 100;
-      const fallContrib = data.fallSM_pct - 100;
-      const springContrib = data.springPrecip_pct - 100;
-      
       return (
         <div className="bg-white p-4 border-2 border-blue-500 rounded-lg shadow-lg">
           <p className="font-bold text-lg mb-2">WY {data.year}</p>
           <div className="space-y-1 text-sm">
-            <p>
-              <span className="font-semibold">SWE:</span> {sweContrib >= 0 ? '+' : ''}{sweContrib.toFixed(1)}%
-            </p>
-            <p>
-              <span className="font-semibold">Fall SM:</span> {fallContrib >= 0 ? '+' : ''}{fallContrib.toFixed(1)}%
-            </p>
-            <p>
-              <span className="font-semibold">Spring Precip:</span> {springContrib >= 0 ? '+' : ''}{springContrib.toFixed(1)}%
-            </p>
+            {scatterTooltipVariables.map(v => (
+              <p key={v.key}>
+                <span className="font-semibold">{v.shortLabel}:</span> {formatScatterValue(v, data[v.pctKey])}
+              </p>
+            ))}
           </div>
           <p className="font-semibold mt-2 pt-2 border-t">
-            Streamflow: {data.streamflow_pct.toFixed(0)}% of avg
+            {target.shortLabel}: {data[target.pctKey].toFixed(0)}% of avg
           </p>
           <p className="text-xs text-gray-600 mt-1">
-            ({data.streamflow_mm.toFixed(1)} mm)
+            ({formatTarget(data[target.valueKey])})
+          </p>
+          {data.influence && (
+            <p className={`text-xs mt-2 ${data.influence.flags.length > 0 ? 'text-amber-700 font-semibold' : 'text-gray-600'}`}>
+              Cook's D {data.influence.cooksDistance.toFixed(3)} · leverage {data.influence.leverage.toFixed(3)} · std. residual {data.influence.standardizedResidual.toFixed(2)}
+            </p>
+          )}
+          <p className="text-xs text-gray-500 mt-1 italic">
+            {data.included ? 'Click to exclude from training' : 'Excluded from training; click to include'}
           </p>
         </div>
       );
@@ -221,7 +936,7 @@ const LakePowellInflowTool = () => {
     return null;
   };
 
-  const SliderWithHistogram = ({ label, value, onChange, min, max, histogram, icon: Icon, color }) => {
+  const SliderWithHistogram = ({ label, value, onChange, min, max, histogram, icon: Icon, color, baselineLabel, formatAbsolute }) => {
     const maxCount = Math.max(...histogram.map(d => d.count));
     
     return (
@@ -231,7 +946,10 @@ const LakePowellInflowTool = () => {
             <Icon className={`w-5 h-5 ${color}`} />
             <label className="font-semibold text-gray-700">{label}</label>
           </div>
-          <span className="text-lg font-bold text-gray-900">{Math.round(value)}%</span>
+          <span className="text-right">
+            <span className="text-lg font-bold text-gray-900">{Math.round(value)}%</span>
+            <span className="block text-xs text-gray-500">{formatAbsolute(value)}</span>
+          </span>
         </div>
         
         <div className="relative h-12 mb-1">
@@ -275,7 +993,7 @@ const LakePowellInflowTool = () => {
         />
         <div className="flex justify-between text-xs text-gray-500 mt-1">
           <span>{Math.round(min)}%</span>
-          <span>100% (1991-2020 Avg)</span>
+          <span>100% ({baselineLabel} Avg)</span>
           <span>{Math.round(max)}%</span>
         </div>
       </div>
@@ -300,41 +1018,364 @@ const LakePowellInflowTool = () => {
           <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
           <h2 className="text-xl font-bold text-gray-800 mb-2">Error Loading Data</h2>
           <p className="text-gray-600">{error}</p>
+          {dataset && (
+            <div className="flex gap-2 mt-4">
+              {dataset.blocked.length > 0 && (
+                <button
+                  onClick={() => {
+                    // Return the blocked issues to their default handling and reopen the report
+                    const actions = { ...dataset.actions };
+                    dataset.blocked.forEach(issue => delete actions[issue.id]);
+                    setDataset(buildDataset(dataset.name, dataset.source, dataset.rawRows, actions));
+                    setDataReportOpen(true);
+                  }}
+                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium text-white transition-colors"
+                >
+                  Unblock and review data report
+                </button>
+              )}
+              {dataset.source !== 'bundled' && bundledDataset && (
+                <button
+                  onClick={() => setDataset(bundledDataset)}
+                  className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium text-gray-700 transition-colors"
+                >
+                  Use bundled dataset
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
     );
   }
 
   const { years, means, ranges, histograms } = historicalData;
+  const issueSpec = ISSUE_DATES[historicalData.issueDate];
+  const basins = datasetBasins(dataset.rows);
+  const targetUnit = DISPLAY_UNITS[unitFor(target.unit)].label;
+  const formatTarget = (value, withUnit = true) => formatUnits(value, target.unit, withUnit);
+  // A fraction of the target mean written as the threshold fields read it: no grouping separators,
+  // since they split on commas
+  const thresholdExample = (fraction) =>
+    toDisplayUnits(means[target.meanKey] * fraction, target.unit).toFixed(DISPLAY_UNITS[unitFor(target.unit)].decimals);
+  const inflowCalibration = inflowCalibrations[calibrationMethod] ?? null;
+  const correctedInflow = inflowCalibration ? inflowCalibration.correct(forecastedFlowValue, forecastIntervals) : null;
   
-  const getColor = (springPrecipPct) => {
-    const normalized = (springPrecipPct - ranges.springPrecip_pct.min) / 
-                      (ranges.springPrecip_pct.max - ranges.springPrecip_pct.min);
+  const yearSpan = `${years[0].year}-${years[years.length - 1].year}`;
+  const baselineLabel = `${baselineStart}-${baselineEnd}`;
+  // Presets are clamped to the loaded record so they match the window applyBaseline will set
+  const baselinePresets = [
+    ...BASELINE_PRESETS,
+    { label: `Full record (${yearSpan})`, start: years[0].year, end: years[years.length - 1].year }
+  ].map(b => {
+    const start = Math.max(b.start, years[0].year);
+    const end = Math.min(b.end, years[years.length - 1].year);
+    return {
+      ...b,
+      start,
+      end,
+      clamped: start !== b.start || end !== b.end,
+      available: years.filter(y => y.year >= start && y.year <= end).length >= MIN_BASELINE_YEARS
+    };
+  });
+  const activeBaselinePreset = customBaseline ? null : baselinePresets.find(b => b.start === baselineStart && b.end === baselineEnd);
+
+  // Position of a value within the historical range of a variable, clamped so scenarios outside it stay on the scale
+  const normalizedInRange = (variable, pct) => {
+    const range = ranges[variable.pctKey];
+    return Math.min(Math.max((pct - range.min) / (range.max - range.min), 0), 1);
+  };
+
+  const getColor = (variable, pct) => spectralColor(normalizedInRange(variable, pct));
+
+  const getSizeScale = (variable, pct) => {
+    return 100 + normalizedInRange(variable, pct) * 300;
+  };
+
+  // In ESP mode the 50% exceedance value stands in for the single spring-precipitation forecast
+  const espMedian = espMode && espForecast ? espForecast.exceedance.find(e => e.level === 0.5) : null;
+
+  // Reservoir projection; a blank inflow follows the model's Powell inflow forecast
+  const reservoirStartValue = parseFloat(reservoirStart);
+  const reservoirInflowMAF = reservoirInflow === '' ? powellInflowMAF : parseFloat(reservoirInflow);
+  const reservoirReleaseMAF = parseFloat(reservoirRelease);
+  const powellProjection = [reservoirStartValue, reservoirInflowMAF, reservoirReleaseMAF].every(Number.isFinite)
+    ? projectPowellStorage({
+        startStorage: reservoirStartMode === 'elevation' ? powellStorageAtElevation(reservoirStartValue) : reservoirStartValue,
+        inflow: reservoirInflowMAF,
+        release: reservoirReleaseMAF
+      })
+    : null;
+
+  // Asymmetric [below, above] offsets from the forecast for recharts' ErrorBar
+  const forecastError = (level) => {
+    const interval = forecastIntervals.find(i => i.level === level);
+    return interval ? [forecastedFlowPct - interval.lowPct, interval.highPct - forecastedFlowPct] : [0, 0];
+  };
+
+  const factorContributions = (inputs) => (activeModel
+    ? predictorContributions(activeModel, [inputs.swe, inputs.fallSM, inputs.springPrecip])
+    : { swe: 0, fallSM: 0, springPrecip: 0 });
+
+  const { swe: sweContribution, fallSM: fallContribution, springPrecip: springContribution } =
+    factorContributions({ swe: sweApr1Pct, fallSM: fallSMPct, springPrecip: springPrecipPct });
+
+  const saveCurrentScenario = () => {
+    const interval95 = forecastIntervals.find(i => i.level === 0.95);
+    const scenario = {
+      id: `${Date.now()}`,
+      name: scenarioName.trim() || `Scenario ${savedScenarios.length + 1}`,
+      savedAt: new Date().toISOString(),
+      inputs: { swe: sweApr1Pct, fallSM: fallSMPct, springPrecip: springPrecipPct },
+      settings: {
+        target: forecastTarget,
+        model: modelForm,
+        intercept: useIntercept,
+        baseline: { start: baselineStart, end: baselineEnd },
+        dataset: dataset.name
+      },
+      forecast: {
+        pct: forecastedFlowPct,
+        value: forecastedFlowValue,
+        unit: target.unit,
+        low95: interval95 ? interval95.lowValue : null,
+        high95: interval95 ? interval95.highValue : null
+      }
+    };
+    setSavedScenarios([...savedScenarios, scenario]);
+    setComparedScenarioIds([...comparedScenarioIds, scenario.id]);
+    setScenarioName('');
+  };
+
+  const loadScenario = (scenario) => {
+    setSweApr1Pct(scenario.inputs.swe);
+    setFallSMPct(scenario.inputs.fallSM);
+    setSpringPrecipPct(scenario.inputs.springPrecip);
+    setSelectedYear(null);
+    if (historicalData.availableTargets.includes(scenario.settings.target)) setForecastTarget(scenario.settings.target);
+    if (MODEL_FORMS[scenario.settings.model]) setModelForm(scenario.settings.model);
+    setUseIntercept(scenario.settings.intercept);
+    applyBaseline(scenario.settings.baseline.start, scenario.settings.baseline.end);
+  };
+
+  const buildForecastReport = () => {
+    const coefficients = regressionFit
+      ? [
+          ...(regressionFit.hasIntercept ? ['Intercept'] : []),
+          ...modelSpec.terms
+        ].map((term, i) => ({
+          term,
+          estimate: regressionFit.hasIntercept ? (i === 0 ? regressionFit.intercept : regressionFit.beta[i - 1]) : regressionFit.beta[i],
+          se: regressionFit.se[i],
+          pValue: regressionFit.pValues[i]
+        }))
+      : [];
     
-    if (normalized < 0.25) {
-      const t = normalized / 0.25;
-      return `rgb(${Math.round(215 + 40 * t)}, ${Math.round(48 + 62 * t)}, ${Math.round(39 - 9 * t)})`;
-    } else if (normalized < 0.5) {
-      const t = (normalized - 0.25) / 0.25;
-      return `rgb(${Math.round(255 - 5 * t)}, ${Math.round(110 + 110 * t)}, ${Math.round(30 + 20 * t)})`;
-    } else if (normalized < 0.75) {
-      const t = (normalized - 0.5) / 0.25;
-      return `rgb(${Math.round(250 - 180 * t)}, ${Math.round(220 - 20 * t)}, ${Math.round(50 + 150 * t)})`;
-    } else {
-      const t = (normalized - 0.75) / 0.25;
-      return `rgb(${Math.round(70 - 40 * t)}, ${Math.round(200 - 80 * t)}, ${Math.round(200 + 40 * t)})`;
-    }
+    // Target quantities are exported in the selected display unit; percentages are unit-free
+    const unitKey = unitFor(target.unit);
+    const convert = (value) => toDisplayUnits(value, target.unit);
+    const convertInterval = (i) => ({ ...i, lowValue: convert(i.lowValue), highValue: convert(i.highValue) });
+    const generatedAt = new Date().toISOString();
+    return {
+      generatedAt,
+      fileStem: `powell-forecast-${generatedAt.slice(0, 10)}`,
+      dataset: { name: dataset.name, source: dataset.source, basin, years: years.length, span: yearSpan },
+      baseline: { start: baselineStart, end: baselineEnd },
+      issueDate: { key: historicalData.issueDate, ...issueSpec },
+      target: {
+        key: forecastTarget,
+        label: target.label,
+        unit: DISPLAY_UNITS[unitKey].label,
+        unitKey,
+        nativeUnit: target.unit,
+        decimals: DISPLAY_UNITS[unitKey].decimals
+      },
+      drainageAreaKm2,
+      volumeUnit: unitFor('MAF'),
+      model: {
+        form: modelForm,
+        label: modelSpec.label,
+        intercept: useIntercept,
+        equation: modelSpec.equation(useIntercept),
+        excludedYears: years.filter(y => !y.included).map(y => y.year)
+      },
+      inputs: { swe: sweApr1Pct, fallSM: fallSMPct, springPrecip: springPrecipPct, selectedYear },
+      forecast: {
+        pct: forecastedFlowPct,
+        value: convert(forecastedFlowValue),
+        intervals: forecastIntervals.map(convertInterval),
+        inflowMAF: powellInflowMAF,
+        correctedInflow: correctedInflow
+          ? {
+              method: calibrationMethod,
+              label: CALIBRATION_METHODS[calibrationMethod].label,
+              looRmse: inflowCalibration.crossValidated.rmse,
+              looBias: inflowCalibration.crossValidated.bias,
+              ...correctedInflow
+            }
+          : null
+      },
+      categories: categories
+        ? {
+            ...categories,
+            label: PROBABILITY_METHODS[categories.method].label,
+            terciles: {
+              lower: { ...categories.terciles.lower, value: convert(categories.terciles.lower.value) },
+              upper: { ...categories.terciles.upper, value: convert(categories.terciles.upper.value) }
+            },
+            thresholds: categories.thresholds.map(t => ({ ...t, value: convert(t.value) }))
+          }
+        : null,
+      esp: espMedian
+        ? { traces: espForecast.traces.length, exceedance: espForecast.exceedance.map(e => ({ ...e, value: convert(e.value) })) }
+        : null,
+      basinAggregate,
+      monteCarlo: monteCarlo && !espMedian
+        ? {
+            ...monteCarlo,
+            mean: { ...monteCarlo.mean, value: convert(monteCarlo.mean.value) },
+            sd: { ...monteCarlo.sd, value: convert(monteCarlo.sd.value) },
+            percentiles: monteCarlo.percentiles.map(p => ({ ...p, value: convert(p.value) })),
+            histogram: monteCarlo.histogram.map(h => ({ ...h, value: convert(h.value) })),
+            thresholds: monteCarlo.thresholds.map(t => ({ ...t, value: convert(t.value) })),
+            uncertainty: inputUncertainty,
+            residual: monteCarloResidual
+          }
+        : null,
+      reservoir: powellProjection,
+      contributions: { swe: sweContribution, fallSM: fallContribution, springPrecip: springContribution },
+      coefficients,
+      fitStatistics: regressionFit
+        ? { r2: regressionFit.r2, adjR2: regressionFit.adjR2, rse: regressionFit.rse, n: regressionFit.n }
+        : null,
+      warnings: rangeWarnings,
+      disclaimer: BETA_DISCLAIMER
+    };
   };
 
-  const getSizeScale = (fallSMPct) => {
-    const normalized = (fallSMPct - ranges.fallSM_pct.min) / 
-                      (ranges.fallSM_pct.max - ranges.fallSM_pct.min);
-    return 100 + normalized * 300;
+  const exportReport = async (format) => {
+    setExportMenuOpen(false);
+    setExportError(null);
+    if (modelUnavailable) {
+      setExportError('There is no forecast to export: the model could not be fitted.');
+      return;
+    }
+    const report = buildForecastReport();
+    try {
+      if (format === 'json') {
+        const { fileStem, ...content } = report;
+        downloadBlob(new Blob([JSON.stringify(content, null, 2)], { type: 'application/json' }), `${fileStem}.json`);
+      } else if (format === 'csv') {
+        downloadBlob(new Blob([reportToCsv(report)], { type: 'text/csv' }), `${report.fileStem}.csv`);
+      } else {
+        const svg = scatterChartRef.current?.querySelector('svg.recharts-surface');
+        const chart = svg ? await svgToPngDataUrl(svg) : null;
+        if (format === 'pdf') (await renderReportPdf(report, chart)).save(`${report.fileStem}.pdf`);
+        else await renderReportPng(report, chart);
+        if (!chart) setExportError('The scatter chart was not available, so the brief was exported without it.');
+      }
+    } catch (err) {
+      setExportError(`Export failed: ${err.message}`);
+    }
   };
 
-  const sweContribution = sweApr1Pct - 100;
-  const fallContribution = fallSMPct - 100;
-  const springContribution = springPrecipPct - 100;
+  const dataVariables = DATA_VARIABLES
+    .filter(v => !v.isTarget || historicalData.availableTargets.includes(v.key))
+    .map(v => issueDateVariable(v, historicalData.issueDate))
+    .map(v => ({
+      ...v,
+      unit: DISPLAY_UNITS[unitFor(v.unit)].label,
+      decimals: DISPLAY_UNITS[unitFor(v.unit)].decimals,
+      scale: toDisplayUnits(1, v.unit)
+    }));
+  const tsVariable = dataVariables.find(v => v.key === tsVariableKey) || dataVariables[0];
+  const tsStart = Math.max(tsWindow.start ?? years[0].year, years[0].year);
+  const tsEnd = Math.min(tsWindow.end ?? years[years.length - 1].year, years[years.length - 1].year);
+  const tsYears = years.filter(y => y.year >= tsStart && y.year <= tsEnd);
+  
+  const trendStats = dataVariables.map(v => {
+    const times = tsYears.map(y => y.year);
+    const sen = sensSlope(times, tsYears.map(y => y[v.valueKey] * v.scale));
+    const senPct = sensSlope(times, tsYears.map(y => y[v.pctKey]));
+    return {
+      variable: v,
+      n: tsYears.length,
+      mk: mannKendall(tsYears.map(y => y[v.valueKey])),
+      sen,
+      senPct,
+      slopeValue: sen.slope,
+      slopePct: senPct.slope
+    };
+  });
+  
+  const tsTrend = trendStats.find(t => t.variable.key === tsVariable.key);
+  const tsLine = tsShowPct ? tsTrend.senPct : tsTrend.sen;
+  const tsValues = years.map(y => (tsShowPct ? y[tsVariable.pctKey] : y[tsVariable.valueKey] * tsVariable.scale));
+  const tsAverages = tsMovingAverage > 0 ? movingAverage(tsValues, tsMovingAverage) : [];
+  const tsChartData = years.map((y, i) => ({
+    year: y.year,
+    value: tsValues[i],
+    movingAverage: tsMovingAverage > 0 ? tsAverages[i] : null,
+    trend: y.year >= tsStart && y.year <= tsEnd ? tsLine.intercept + tsLine.slope * y.year : null
+  }));
+
+  // Saved scenarios re-evaluated with the current model and target so they share the chart's axes
+  const comparedScenarios = savedScenarios
+    .map((s, i) => ({ ...s, marker: SCENARIO_MARKERS[i % SCENARIO_MARKERS.length] }))
+    .filter(s => comparedScenarioIds.includes(s.id))
+    .map(s => {
+      const prediction = activeModel ? activeModel.predict([s.inputs.swe, s.inputs.fallSM, s.inputs.springPrecip]) : null;
+      return { ...s, currentPct: prediction ? prediction.pct : NaN };
+    });
+
+  // Scatter encodings; an empty Y selection follows the forecast target
+  const variableByKey = (key) => dataVariables.find(v => v.key === key);
+  const scatterX = variableByKey(scatterEncoding.x) || dataVariables[0];
+  const scatterY = variableByKey(scatterEncoding.y || forecastTarget) || variableByKey(forecastTarget);
+  const scatterColor = variableByKey(scatterEncoding.color) || dataVariables[2];
+  const scatterSize = variableByKey(scatterEncoding.size) || dataVariables[1];
+  const scatterValue = (variable, pct) => (scatterShowPct ? pct : (pct / 100) * means[variable.meanKey] * variable.scale);
+  const formatScatterValue = (variable, pct) => (scatterShowPct
+    ? `${pct.toFixed(0)}% of avg`
+    : `${scatterValue(variable, pct).toFixed(variable.decimals)} ${variable.unit}`);
+  const scatterAxisLabel = (variable) => (scatterShowPct
+    ? `${variable.label} (% of ${baselineLabel} average)`
+    : `${variable.label} (${variable.unit})`);
+  // Percent axes keep the 25% grid through 100; absolute axes let recharts pick the ticks
+  const scatterAxisScale = (variable) => {
+    if (!scatterShowPct) return { domain: ['auto', 'auto'] };
+    const min = Math.floor(ranges[variable.pctKey].min / 25) * 25;
+    const max = Math.ceil(ranges[variable.pctKey].max / 25) * 25;
+    const ticks = [];
+    for (let i = min; i <= max; i += 25) {
+      ticks.push(i);
+    }
+    if (!ticks.includes(100)) {
+      ticks.push(100);
+      ticks.sort((a, b) => a - b);
+    }
+    return { domain: [min, max], ticks };
+  };
+  // A scenario only has a position for the predictors and the target being forecast
+  const scenarioPct = (variable, inputs, flowPct) => {
+    if (!variable.isTarget) return inputs[variable.key];
+    return variable.key === forecastTarget ? flowPct : null;
+  };
+  const scenarioPoint = (inputs, flowPct) => {
+    const xPct = scenarioPct(scatterX, inputs, flowPct);
+    const yPct = scenarioPct(scatterY, inputs, flowPct);
+    if (xPct === null || yPct === null) return null;
+    const sizePct = scenarioPct(scatterSize, inputs, flowPct);
+    return {
+      x: scatterValue(scatterX, xPct),
+      y: scatterValue(scatterY, yPct),
+      size: sizePct === null ? 250 : getSizeScale(scatterSize, sizePct)
+    };
+  };
+  const currentInputs = { swe: sweApr1Pct, fallSM: fallSMPct, springPrecip: springPrecipPct };
+  const forecastPoint = scenarioPoint(currentInputs, forecastedFlowPct);
+  const scatterTooltipVariables = [scatterX, scatterY, scatterColor, scatterSize]
+    .filter((v, i, all) => all.indexOf(v) === i && v.key !== forecastTarget);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-cyan-50 p-6">
@@ -344,117 +1385,705 @@ const LakePowellInflowTool = () => {
             Lake Powell Inflow Forecasting Tool
           </h1>
           <p className="text-gray-600">
-            Upper Colorado River Basin VIC Model (1985-2024, Baseline: 1991-2020)
+            Upper Colorado River Basin {dataset.source === 'bundled' ? 'VIC Model' : dataset.name} ({yearSpan}, Baseline: {baselineLabel})
           </p>
           <p className="text-sm text-red-600 font-semibold mt-1">
             INTERNAL BETA VERSION - FOR DEVELOPMENT AND TESTING ONLY
           </p>
         </header>
 
+        <div
+          className={`mb-6 bg-white rounded-xl shadow-lg p-4 border-2 transition-colors ${
+            dragActive ? 'border-dashed border-blue-500 bg-blue-50' : 'border-transparent'
+          }`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragActive(true);
+          }}
+          onDragLeave={() => setDragActive(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragActive(false);
+            handleFileSelected(e.dataTransfer.files[0]);
+          }}
+        >
+          <div className="flex items-center justify-between flex-wrap gap-3">
+            <div className="flex items-center gap-3">
+              <Database className="w-5 h-5 text-blue-600" />
+              <div>
+                <div className="text-sm text-gray-600">Active dataset</div>
+                <div className="font-semibold text-gray-800">
+                  {dataset.name}
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                    dataset.source === 'bundled' ? 'bg-gray-100 text-gray-700' : 'bg-amber-100 text-amber-800'
+                  }`}>
+                    {dataset.source === 'bundled' ? 'Bundled VIC simulations' : 'User-supplied'}
+                  </span>
+                  <span className="ml-2 text-sm font-normal text-gray-500">
+                    {years.length} water years ({yearSpan})
+                  </span>
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setDataReportOpen(!dataReportOpen)}
+                className="flex items-center gap-2 px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium text-gray-700 transition-colors"
+              >
+                Data report
+                <span className={`px-1.5 rounded-full text-xs ${
+                  dataset.issues.some(i => i.severity === 'error') ? 'bg-red-100 text-red-800'
+                    : dataset.issues.length > 0 ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'
+                }`}>
+                  {dataset.issues.length}
+                </span>
+              </button>
+              {dataset.source !== 'bundled' && bundledDataset && (
+                <button
+                  onClick={() => setDataset(bundledDataset)}
+                  className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium text-gray-700 transition-colors"
+                >
+                  Use bundled dataset
+                </button>
+              )}
+              <label className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium text-white transition-colors cursor-pointer">
+                <Upload className="w-4 h-4" />
+                Load CSV
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleFileSelected(e.target.files[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">Drop a CSV file here or use Load CSV to analyse another model run or an updated record.</p>
+          
+          {dataReportOpen && (
+            <div className="mt-4 pt-4 border-t">
+              <h3 className="font-semibold text-gray-800 mb-1">Data report for {dataset.name}</h3>
+              <p className="text-sm text-gray-600 mb-3">
+                {dataset.issues.length === 0
+                  ? `No problems found in ${dataset.rawRows.length} rows: no blank, non-numeric or negative values, duplicate or missing water years, or outliers.`
+                  : `${dataset.issues.filter(i => i.severity === 'error').length} error(s) and ${dataset.issues.filter(i => i.severity === 'warning').length} warning(s) in ${dataset.rawRows.length} rows. ` +
+                    `${dataset.excludedRows.length} row(s) excluded and ${dataset.interpolated.length} value(s) interpolated with the handling below; ` +
+                    'choosing Block marks the dataset unusable.'}
+              </p>
+              {dataset.issues.length > 0 && (
+                <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                  <table className="w-full text-sm text-gray-700">
+                    <thead className="sticky top-0 bg-white">
+                      <tr className="border-b-2 border-gray-200 text-left">
+                        <th className="py-2 pr-4 font-semibold">Severity</th>
+                        <th className="py-2 pr-4 font-semibold">Water year</th>
+                        <th className="py-2 pr-4 font-semibold">Finding</th>
+                        <th className="py-2 font-semibold">Handling</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {dataset.issues.map(issue => (
+                        <tr key={issue.id} className="border-b border-gray-100">
+                          <td className="py-2 pr-4">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                              issue.severity === 'error' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'
+                            }`}>
+                              {issue.severity}
+                            </span>
+                          </td>
+                          <td className="py-2 pr-4 font-mono">{issue.year ?? '—'}</td>
+                          <td className="py-2 pr-4">{issue.message}</td>
+                          <td className="py-2">
+                            <select
+                              className="p-1.5 border border-gray-300 rounded-lg bg-white text-sm"
+                              value={dataset.actions[issue.id] ?? issue.actions[0]}
+                              onChange={(e) => setDataset(buildDataset(dataset.name, dataset.source, dataset.rawRows, {
+                                ...dataset.actions,
+                                [issue.id]: e.target.value
+                              }))}
+                            >
+                              {issue.actions.map(action => (
+                                <option key={action} value={action}>{ISSUE_ACTION_LABELS[action]}</option>
+                              ))}
+                            </select>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+          
+          {pendingUpload && (
+            <div className="mt-4 pt-4 border-t">
+              <h3 className="font-semibold text-gray-800 mb-1">Map columns from {pendingUpload.fileName}</h3>
+              <p className="text-sm text-gray-600 mb-3">
+                {pendingUpload.rows.length} rows, {pendingUpload.columns.length} columns. Assign a file column to each field;
+                target columns are optional but at least one is required.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 mb-4">
+                {DATASET_FIELDS.map(field => (
+                  <div key={field.column}>
+                    <label className="block text-xs font-semibold text-gray-700 mb-1">
+                      {field.label}{field.required ? ' *' : ''}
+                    </label>
+                    <select
+                      className="w-full p-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-700"
+                      value={pendingUpload.mapping[field.column] || ''}
+                      onChange={(e) => setPendingUpload({
+                        ...pendingUpload,
+                        mapping: { ...pendingUpload.mapping, [field.column]: e.target.value },
+                        errors: []
+                      })}
+                    >
+                      <option value="">{field.required ? '-- Select column --' : '-- Not available --'}</option>
+                      {pendingUpload.columns.map(c => (
+                        <option key={c} value={c}>{c}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              
+              {pendingUpload.errors.length > 0 && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                  <p className="font-semibold mb-1">The file cannot be used yet:</p>
+                  <ul className="list-disc list-inside">
+                    {pendingUpload.errors.map(e => <li key={e}>{e}</li>)}
+                  </ul>
+                </div>
+              )}
+              
+              <div className="flex gap-2">
+                <button
+                  onClick={applyPendingUpload}
+                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium text-white transition-colors"
+                >
+                  Validate & use dataset
+                </button>
+                <button
+                  onClick={() => setPendingUpload(null)}
+                  className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium text-gray-700 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
           {/* Left Panel: Input Parameters */}
           <div className="lg:col-span-1 bg-white rounded-xl shadow-lg p-6 h-full">
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-2xl font-bold text-gray-800">Input Parameters</h2>
-              <button
-                onClick={() => {
-                  setSweApr1Pct(100);
-                  setFallSMPct(100);
-                  setSpringPrecipPct(100);
-                }}
-                className="flex items-center gap-1 px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium text-gray-700 transition-colors"
-                title="Reset all to 100%"
-              >
-                <RotateCcw className="w-4 h-4" />
-                Reset
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => {
+                    navigator.clipboard.writeText(window.location.href).then(() => {
+                      setLinkCopied(true);
+                      setTimeout(() => setLinkCopied(false), 2000);
+                    });
+                  }}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium text-gray-700 transition-colors"
+                  title="Copy a link that reproduces this scenario"
+                >
+                  <Link className="w-4 h-4" />
+                  {linkCopied ? 'Copied' : 'Link'}
+                </button>
+                <button
+                  onClick={() => {
+                    setSweApr1Pct(100);
+                    setFallSMPct(100);
+                    setSpringPrecipPct(100);
+                    setSelectedYear(null);
+                  }}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium text-gray-700 transition-colors"
+                  title="Reset all to 100%"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Reset
+                </button>
+              </div>
             </div>
             
-            <div className="mb-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
+            <div className="mb-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
+              {basins.length > 0 && (
+                <>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Basin
+                  </label>
+                  <select
+                    className="w-full p-2 border border-gray-300 rounded-lg bg-white text-gray-700 font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500 mb-3"
+                    value={basin}
+                    onChange={(e) => setBasin(e.target.value)}
+                  >
+                    {basins.map(b => <option key={b} value={b}>{b}</option>)}
+                  </select>
+                </>
+              )}
               <label className="block text-sm font-semibold text-gray-700 mb-2">
-                Quick Select Historical Year
+                Forecast Target
+              </label>
+              <select
+                className="w-full p-2 border border-gray-300 rounded-lg bg-white text-gray-700 font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                value={forecastTarget}
+                onChange={(e) => setForecastTarget(e.target.value as TargetKey)}
+              >
+                {Object.entries(FORECAST_TARGETS).map(([key, t]) => (
+                  <option key={key} value={key} disabled={!historicalData.availableTargets.includes(key)}>
+                    {t.label} ({t.unit})
+                  </option>
+                ))}
+              </select>
+              <label className="block text-sm font-semibold text-gray-700 mt-3 mb-2">
+                Model Form
+              </label>
+              <select
+                className="w-full p-2 border border-gray-300 rounded-lg bg-white text-gray-700 font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                value={modelForm}
+                onChange={(e) => setModelForm(e.target.value as ModelFormKey)}
+              >
+                {Object.entries(MODEL_FORMS).map(([key, m]) => (
+                  <option key={key} value={key}>{m.label}</option>
+                ))}
+              </select>
+              <label className="block text-sm font-semibold text-gray-700 mt-3 mb-2">
+                Issue Date
               </label>
               <select
                 className="w-full p-2 border border-gray-300 rounded-lg bg-white text-gray-700 font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                value={historicalData.issueDate}
                 onChange={(e) => {
-                  if (e.target.value === '') return;
-                  const selectedYear = years.find(y => y.year === parseInt(e.target.value));
-                  if (selectedYear) {
-                    setSweApr1Pct(selectedYear.swe_pct);
-                    setFallSMPct(selectedYear.fallSM_pct);
-                    setSpringPrecipPct(selectedYear.springPrecip_pct);
+                  const next = e.target.value as IssueDateKey;
+                  setIssueDate(next);
+                  setSelectedYear(null);
+                  if (ISSUE_DATES[next].precipObserved) {
+                    setEspMode(false);
+                    setChartTab(tab => (tab === 'esp' ? 'scatter' : tab));
                   }
                 }}
-                defaultValue=""
               >
-                <option value="">-- Select a water year --</option>
-                {years.map(year => (
-                  <option key={year.year} value={year.year}>
-                    WY {year.year} ({Math.round(year.streamflow_pct)}%)
+                {Object.entries(ISSUE_DATES).map(([key, d]) => (
+                  <option key={key} value={key} disabled={!historicalData.availableIssueDates.includes(key)}>
+                    {d.label}{historicalData.availableIssueDates.includes(key) ? '' : ' (not in dataset)'}
                   </option>
                 ))}
               </select>
+              {historicalData.availableIssueDates.length < Object.keys(ISSUE_DATES).length && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Earlier issue dates need first-of-month SWE and precipitation-to-date columns in the dataset.
+                </p>
+              )}
+              <div className="grid grid-cols-2 gap-2 mt-3">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Units
+                  </label>
+                  <select
+                    className="w-full p-2 border border-gray-300 rounded-lg bg-white text-gray-700 font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    value={displayUnit}
+                    onChange={(e) => setDisplayUnit(e.target.value as DisplayUnitKey | 'native')}
+                  >
+                    <option value="native">Native (mm, MAF)</option>
+                    {Object.entries(DISPLAY_UNITS).map(([key, u]) => (
+                      <option key={key} value={key}>{u.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Drainage Area (km²)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={drainageArea}
+                    placeholder={String(Math.round(drainageAreaKm2))}
+                    onChange={(e) => setDrainageArea(e.target.value)}
+                    className="w-full p-2 border border-gray-300 rounded-lg bg-white text-gray-700"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Depths (mm, in) and volumes (AF, MAF, km³, m³) convert over the contributing drainage area
+                {drainageArea ? '.' : basinArea > 0 ? ` of ${basin}.` : ' above Lees Ferry.'}
+              </p>
             </div>
             
-            <SliderWithHistogram
-              label="April 1st SWE"
-              value={sweApr1Pct}
-              onChange={setSweApr1Pct}
-              min={ranges.swe_pct.min}
-              max={ranges.swe_pct.max}
-              histogram={histograms.swe}
-              icon={Snowflake}
-              color="text-blue-500"
-            />
-            <SliderWithHistogram
-              label="Fall Soil Moisture (Oct-Nov)"
-              value={fallSMPct}
-              onChange={setFallSMPct}
-              min={ranges.fallSM_pct.min}
-              max={ranges.fallSM_pct.max}
-              histogram={histograms.fallSM}
-              icon={Droplets}
-              color="text-amber-600"
+            <div className="mb-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Baseline (Normal) Period
+              </label>
+              <select
+                className="w-full p-2 border border-gray-300 rounded-lg bg-white text-gray-700 font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500 mb-2"
+                value={activeBaselinePreset?.label ?? 'custom'}
+                onChange={(e) => {
+                  const preset = baselinePresets.find(b => b.label === e.target.value);
+                  setCustomBaseline(!preset);
+                  setBaselineMessage(null);
+                  if (preset) applyBaseline(preset.start, preset.end);
+                }}
+              >
+                {baselinePresets.map(b => (
+                  <option key={b.label} value={b.label} disabled={!b.available}>
+                    {b.label}{b.clamped ? ` (data: ${b.start}-${b.end})` : ''}
+                  </option>
+                ))}
+                <option value="custom">Custom window</option>
+              </select>
+              {!activeBaselinePreset && (
+                <div className="flex items-center gap-2 text-sm text-gray-700">
+                  <select
+                    className="flex-1 p-1.5 border border-gray-300 rounded-lg bg-white"
+                    value={baselineStart}
+                    onChange={(e) => applyBaseline(parseInt(e.target.value), baselineEnd)}
+                  >
+                    {years.map(y => <option key={y.year} value={y.year}>{y.year}</option>)}
+                  </select>
+                  <span>to</span>
+                  <select
+                    className="flex-1 p-1.5 border border-gray-300 rounded-lg bg-white"
+                    value={baselineEnd}
+                    onChange={(e) => applyBaseline(baselineStart, parseInt(e.target.value))}
+                  >
+                    {years.map(y => <option key={y.year} value={y.year}>{y.year}</option>)}
+                  </select>
+                </div>
+              )}
+              {baselineMessage && (
+                <p className="text-xs text-amber-700 mt-1 flex items-start gap-1">
+                  <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                  {baselineMessage}
+                </p>
+              )}
+              <p className="text-xs text-gray-500 mt-1">
+                {historicalData.baseline.years} water years in the baseline; windows need at least {MIN_BASELINE_YEARS}.
+              </p>
+            </div>
+            
+            <div className="mb-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Quick Select Historical Year
+              </label>
+              <select
+                className="w-full p-2 border border-gray-300 rounded-lg bg-white text-gray-700 font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                onChange={(e) => {
+                  if (e.target.value === '') {
+                    setSelectedYear(null);
+                    return;
+                  }
+                  const year = years.find(y => y.year === parseInt(e.target.value));
+                  if (year) {
+                    setSweApr1Pct(year.swe_pct);
+                    setFallSMPct(year.fallSM_pct);
+                    setSpringPrecipPct(year.springPrecip_pct);
+                    setSelectedYear(year.year);
+                  }
+                }}
+                value={selectedYear ?? ''}
+              >
+                <option value="">-- Select a water year --</option>
+                {years.map(year => (
+                  <option key={year.year} value={year.year}>
+                    WY {year.year} ({Math.round(year[target.pctKey])}%){year.included ? '' : ' · excluded'}
+                  </option>
+                ))}
+              </select>
+              <div className="flex items-center justify-between mt-3 mb-2">
+                <span className="text-sm font-semibold text-gray-700">
+                  Training Years ({years.filter(y => y.included).length} of {years.length})
+                </span>
+                {excludedYears.length > 0 && (
+                  <button onClick={() => setExcludedYears([])} className="text-xs font-medium text-blue-700 hover:underline">
+                    Include all
+                  </button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {years.map(year => {
+                  const isFlagged = influence.find(d => d.year === year.year)?.flags.length > 0;
+                  return (
+                    <button
+                      key={year.year}
+                      onClick={() => toggleYearExcluded(year.year)}
+                      title={year.included ? 'Exclude from training' : 'Include in training'}
+                      className={`px-1.5 py-0.5 rounded text-xs font-mono border ${
+                        year.included
+                          ? `bg-white text-gray-700 ${isFlagged ? 'border-amber-500 border-dashed' : 'border-gray-300'}`
+                          : 'bg-gray-200 text-gray-400 line-through border-gray-200'
+                      }`}
+                    >
+                      {String(year.year).slice(2)}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Click a year here or its point on the scatter plot to leave it out of the fit; dashed years are influential.
+                At least {MIN_DATASET_YEARS} years stay in training.
+              </p>
+            </div>
+            
+            <SliderWithHistogram
+              label={issueSpec.sweLabel}
+              value={sweApr1Pct}
+              onChange={(v) => {
+                setSweApr1Pct(v);
+                setSelectedYear(null);
+              }}
+              min={ranges.swe_pct.min}
+              max={ranges.swe_pct.max}
+              histogram={histograms.swe}
+              formatAbsolute={(pct) => formatUnits((pct / 100) * means.swe, 'mm')}
+              baselineLabel={baselineLabel}
+              icon={Snowflake}
+              color="text-blue-500"
             />
             <SliderWithHistogram
-              label="Spring Precipitation (Apr-Jul)"
-              value={springPrecipPct}
-              onChange={setSpringPrecipPct}
-              min={ranges.springPrecip_pct.min}
-              max={ranges.springPrecip_pct.max}
-              histogram={histograms.springPrecip}
-              icon={Cloud}
-              color="text-cyan-500"
+              label="Fall Soil Moisture (Oct-Nov)"
+              value={fallSMPct}
+              onChange={(v) => {
+                setFallSMPct(v);
+                setSelectedYear(null);
+              }}
+              min={ranges.fallSM_pct.min}
+              max={ranges.fallSM_pct.max}
+              histogram={histograms.fallSM}
+              formatAbsolute={(pct) => formatUnits((pct / 100) * means.fallSM, 'mm')}
+              baselineLabel={baselineLabel}
+              icon={Droplets}
+              color="text-amber-600"
             />
+            {espMode ? (
+              <div className="mb-6 p-4 bg-cyan-50 rounded-lg border border-cyan-200 text-sm text-gray-700">
+                <div className="flex items-center gap-2 mb-1">
+                  <Cloud className="w-5 h-5 text-cyan-500" />
+                  <span className="font-semibold">Spring Precipitation (Apr-Jul)</span>
+                </div>
+                Resampled from all {years.length} historical years
+                ({Math.round(ranges.springPrecip_pct.min)}–{Math.round(ranges.springPrecip_pct.max)}% of average).
+              </div>
+            ) : (
+              <SliderWithHistogram
+                label={issueSpec.precipLabel}
+                value={springPrecipPct}
+                onChange={(v) => {
+                  setSpringPrecipPct(v);
+                  setSelectedYear(null);
+                }}
+                min={ranges.springPrecip_pct.min}
+                max={ranges.springPrecip_pct.max}
+                histogram={histograms.springPrecip}
+                formatAbsolute={(pct) => formatUnits((pct / 100) * means.springPrecip, 'mm')}
+                baselineLabel={baselineLabel}
+                icon={Cloud}
+                color="text-cyan-500"
+              />
+            )}
+            
+            {!issueSpec.precipObserved && (
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={espMode}
+                  onChange={(e) => {
+                    setEspMode(e.target.checked);
+                    setChartTab(e.target.checked ? 'esp' : 'scatter');
+                  }}
+                  className="mt-0.5 accent-blue-600"
+                />
+                <span>
+                  <span className="font-semibold">ESP mode</span> — hold SWE and fall soil moisture fixed and run the
+                  forecast once per historical spring precipitation
+                </span>
+              </label>
+            )}
+            
+            <div className="mt-4 p-4 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700">
+              <label className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  checked={monteCarloMode}
+                  onChange={(e) => setMonteCarloMode(e.target.checked)}
+                  className="mt-0.5 accent-blue-600"
+                />
+                <span>
+                  <span className="font-semibold">Input uncertainty</span> — sample the inputs and model error to get a
+                  forecast distribution
+                </span>
+              </label>
+              {monteCarloMode && (
+                <div className="mt-3 space-y-2">
+                  {[
+                    { key: 'swe', label: 'SWE' },
+                    { key: 'fallSM', label: 'Fall SM' },
+                    { key: 'springPrecip', label: issueSpec.precipShortLabel }
+                  ].map(({ key, label }) => (
+                    <div key={key} className="flex items-center gap-2">
+                      <span className="w-24 text-xs font-medium">{label}</span>
+                      <select
+                        className="flex-1 p-1 border border-gray-300 rounded bg-white text-xs"
+                        value={inputUncertainty[key].distribution}
+                        onChange={(e) => setInputUncertainty({
+                          ...inputUncertainty,
+                          [key]: { ...inputUncertainty[key], distribution: e.target.value as InputDistribution }
+                        })}
+                      >
+                        {Object.entries(INPUT_DISTRIBUTIONS).map(([d, spec]) => (
+                          <option key={d} value={d}>{spec.label}</option>
+                        ))}
+                      </select>
+                      <span className="text-xs">±</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        className="w-16 p-1 border border-gray-300 rounded text-xs text-right"
+                        value={inputUncertainty[key].sigma}
+                        onChange={(e) => setInputUncertainty({
+                          ...inputUncertainty,
+                          [key]: { ...inputUncertainty[key], sigma: Math.max(0, parseFloat(e.target.value) || 0) }
+                        })}
+                      />
+                      <span className="text-xs text-gray-500">pts σ</span>
+                    </div>
+                  ))}
+                  <label className="flex items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={monteCarloResidual}
+                      onChange={(e) => setMonteCarloResidual(e.target.checked)}
+                      className="accent-blue-600"
+                    />
+                    Include model residual error
+                  </label>
+                  <label className="block text-xs">
+                    <span className="font-medium">Probability-below thresholds ({targetUnit})</span>
+                    <input
+                      type="text"
+                      className="mt-1 w-full p-1 border border-gray-300 rounded text-xs"
+                      placeholder={`e.g. ${thresholdExample(0.5)}, ${thresholdExample(0.8)}`}
+                      value={monteCarloThresholds}
+                      onChange={(e) => setMonteCarloThresholds(e.target.value)}
+                    />
+                  </label>
+                </div>
+              )}
+            </div>
+            
+            <div className="mt-4 p-4 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700 space-y-2">
+              <div className="font-semibold">Drought-risk probabilities</div>
+              <label className="block text-xs">
+                <span className="font-medium">Method</span>
+                <select
+                  className="mt-1 w-full p-1 border border-gray-300 rounded bg-white text-xs"
+                  value={probabilityMethod}
+                  onChange={(e) => setProbabilityMethod(e.target.value as ProbabilityMethod)}
+                >
+                  {Object.entries(PROBABILITY_METHODS).map(([key, m]) => <option key={key} value={key}>{m.label}</option>)}
+                </select>
+              </label>
+              <label className="block text-xs">
+                <span className="font-medium">Probability-below thresholds ({targetUnit})</span>
+                <input
+                  type="text"
+                  className="mt-1 w-full p-1 border border-gray-300 rounded text-xs"
+                  placeholder={`e.g. ${thresholdExample(0.6)}, ${thresholdExample(0.8)}`}
+                  value={riskThresholds}
+                  onChange={(e) => setRiskThresholds(e.target.value)}
+                />
+              </label>
+            </div>
           </div>
 
           {/* Right Column: Forecast (Top) and Scatter Plot (Bottom) */}
           <div className="lg:col-span-2 flex flex-col gap-6 h-full">
             {/* Forecast Panel (Top) */}
             <div className="p-6 bg-gradient-to-r from-blue-500 to-cyan-500 rounded-xl text-white shadow-lg">
-              <div className="flex items-center gap-2 mb-4">
-                <TrendingUp className="w-6 h-6" />
-                <h3 className="text-xl font-bold">Forecasted Inflow</h3>
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <TrendingUp className="w-6 h-6" />
+                  <h3 className="text-xl font-bold">Forecasted Inflow</h3>
+                </div>
+                <div className="relative">
+                  <button
+                    onClick={() => setExportMenuOpen(!exportMenuOpen)}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-white/20 hover:bg-white/30 rounded-lg text-sm font-medium transition-colors"
+                  >
+                    <Download className="w-4 h-4" />
+                    Export
+                  </button>
+                  {exportMenuOpen && (
+                    <div className="absolute right-0 mt-2 w-56 bg-white rounded-lg shadow-lg py-1 z-20 text-gray-700">
+                      {[
+                        { format: 'pdf', label: 'Forecast brief (PDF)' },
+                        { format: 'png', label: 'Forecast brief (PNG)' },
+                        { format: 'csv', label: 'Forecast data (CSV)' },
+                        { format: 'json', label: 'Forecast data (JSON)' }
+                      ].map(({ format, label }) => (
+                        <button
+                          key={format}
+                          onClick={() => exportReport(format)}
+                          className="block w-full text-left px-4 py-2 text-sm hover:bg-gray-100"
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
+              {exportError && (
+                <div className="mb-4 p-2 bg-red-100 text-red-800 rounded-lg text-sm">{exportError}</div>
+              )}
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="text-center md:text-left md:border-r md:border-white/30 pr-6">
-                  <div className="text-5xl font-bold mb-1">
-                    {Math.round(forecastedFlowPct)}%
-                  </div>
-                  <div className="text-lg opacity-90 mb-2">
-                    of 1991-2020 average
-                  </div>
-                  <div className="text-3xl font-semibold">
-                    {forecastedFlowMM.toFixed(1)} mm
-                  </div>
+                  {modelUnavailable && !espMedian ? (
+                    <div className="mb-2">
+                      <div className="text-3xl font-bold mb-1">Model unavailable</div>
+                      <div className="text-sm opacity-90">
+                        The {modelSpec.label.toLowerCase()} model could not be fitted to these water years (for example a
+                        singular design matrix), so there is no forecast. Try another model form or fewer excluded years.
+                      </div>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="text-5xl font-bold mb-1">
+                        {Math.round(espMedian ? espMedian.pct : forecastedFlowPct)}%
+                      </div>
+                      <div className="text-lg opacity-90 mb-2">
+                        of {baselineLabel} average{espMedian && ' (ESP median)'}
+                      </div>
+                      <div className="text-3xl font-semibold">
+                        {formatTarget((espMedian ? espMedian.value : forecastedFlowValue))}
+                      </div>
+                    </>
+                  )}
                   <div className="text-sm opacity-75 mt-1">
-                    Baseline: {means.streamflow.toFixed(1)} mm
+                    {target.label} baseline: {formatTarget(means[target.meanKey])}
                   </div>
+                  {analogForecast && (
+                    <div className="text-sm mt-3 pt-3 border-t border-white/30">
+                      <span className="opacity-80">Analog ensemble ({analogYears.length} years): </span>
+                      <span className="font-semibold">
+                        {Math.round(analogForecast.mean)}% ± {Math.round(analogForecast.sd)}%
+                      </span>
+                      <span className="opacity-80">
+                        {' '}({formatTarget(((analogForecast.mean / 100) * means[target.meanKey]))})
+                      </span>
+                    </div>
+                  )}
                 </div>
                 
                 <div>
-                  <div className="text-sm font-semibold mb-3 opacity-90 uppercase tracking-wider">Factor Contributions:</div>
+                  <div className="text-sm font-semibold mb-3 opacity-90 uppercase tracking-wider">Factor Contributions (pts of avg):</div>
                   <div className="grid grid-cols-3 gap-4">
                     <div className="text-center bg-white/10 rounded-lg p-3">
                       <div className={`text-2xl font-bold ${sweContribution >= 0 ? 'text-green-200' : 'text-red-200'}`}>
@@ -475,112 +2104,1799 @@ const LakePowellInflowTool = () => {
                       <div className="text-xs font-medium opacity-80 mt-1">Spring P</div>
                     </div>
                   </div>
+                  {sensitivity && (
+                    <div className="text-xs opacity-75 mt-2">
+                      Forecast change due to each input's departure from average; all inputs at average give {Math.round(sensitivity.atAverage)}%.
+                    </div>
+                  )}
                 </div>
               </div>
+              
+              {espMode && espForecast && (
+                <div className="mt-6 pt-4 border-t border-white/30">
+                  <div className="text-sm font-semibold mb-3 opacity-90 uppercase tracking-wider">
+                    ESP Exceedance ({espForecast.traces.length} traces):
+                  </div>
+                  <div className="grid grid-cols-5 gap-3 text-sm">
+                    {espForecast.exceedance.map(e => (
+                      <div key={e.level} className={`rounded-lg p-2 text-center ${e.level === 0.5 ? 'bg-white/25' : 'bg-white/10'}`}>
+                        <div className="text-xs font-medium opacity-80">{Math.round(e.level * 100)}% exceedance</div>
+                        <div className="font-bold">{Math.round(e.pct)}%</div>
+                        <div className="text-xs opacity-90">{formatTarget(e.value)}</div>
+                        {inflowCalibration && (
+                          <div className="text-xs opacity-75">≈ {formatUnits(inflowCalibration.apply(e.value), 'MAF')}</div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="text-xs opacity-75 mt-2">
+                    Probability that {target.shortLabel.toLowerCase()} is at least the value shown, given the current SWE and fall soil moisture.
+                  </div>
+                </div>
+              )}
+              
+              {!espMedian && forecastIntervals.length > 0 && (() => {
+                const outer = forecastIntervals[forecastIntervals.length - 1];
+                const span = outer.highPct - outer.lowPct;
+                const toPos = (v) => ((v - outer.lowPct) / span) * 100;
+                return (
+                  <div className="mt-6 pt-4 border-t border-white/30">
+                    <div className="text-sm font-semibold mb-3 opacity-90 uppercase tracking-wider">Prediction Intervals:</div>
+                    <div className="relative h-8 mb-2">
+                      {[...forecastIntervals].reverse().map(interval => (
+                        <div
+                          key={interval.level}
+                          className="absolute top-0 bottom-0 bg-white rounded"
+                          style={{
+                            left: `${toPos(interval.lowPct)}%`,
+                            width: `${toPos(interval.highPct) - toPos(interval.lowPct)}%`,
+                            opacity: interval.level === 0.95 ? 0.15 : interval.level === 0.8 ? 0.25 : 0.4
+                          }}
+                        />
+                      ))}
+                      <div
+                        className="absolute -top-1 -bottom-1 w-1 bg-white rounded"
+                        style={{ left: `calc(${toPos(forecastedFlowPct)}% - 2px)` }}
+                      />
+                    </div>
+                    <div className="grid grid-cols-3 gap-4 text-sm">
+                      {forecastIntervals.map(interval => (
+                        <div key={interval.level} className="bg-white/10 rounded-lg p-2 text-center">
+                          <div className="text-xs font-medium opacity-80">{Math.round(interval.level * 100)}% interval</div>
+                          <div className="font-bold">
+                            {Math.round(interval.lowPct)}–{Math.round(interval.highPct)}%
+                          </div>
+                          <div className="text-xs opacity-90">
+                            {formatTarget(interval.lowValue, false)}–{formatTarget(interval.highValue)}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })()}
+              
+              {(() => {
+                const histogram = histograms[target.meanKey];
+                const lo = histogram[0].binStart;
+                const hi = histogram[histogram.length - 1].binEnd;
+                const maxCount = Math.max(...histogram.map(bin => bin.count));
+                const toPos = (v) => Math.min(Math.max(((v - lo) / (hi - lo)) * 100, 0), 100);
+                const shownPct = espMedian ? espMedian.pct : forecastedFlowPct;
+                return (
+                  <div className="mt-6 pt-4 border-t border-white/30">
+                    <div className="text-sm font-semibold mb-3 opacity-90 uppercase tracking-wider">
+                      Historical {target.shortLabel} ({yearSpan}):
+                    </div>
+                    <div className="relative h-12 mb-1">
+                      {histogram.map((bin, idx) => (
+                        <div
+                          key={idx}
+                          className="absolute bottom-0 bg-white/30 rounded-t-sm"
+                          style={{
+                            left: `${toPos(bin.binStart)}%`,
+                            width: `${toPos(bin.binEnd) - toPos(bin.binStart)}%`,
+                            height: `${(bin.count / maxCount) * 100}%`
+                          }}
+                          title={`${Math.round(bin.binStart)}–${Math.round(bin.binEnd)}%: ${bin.count} year${bin.count === 1 ? '' : 's'}`}
+                        />
+                      ))}
+                      <div
+                        className="absolute -top-1 -bottom-1 w-1 bg-white rounded"
+                        style={{ left: `calc(${toPos(shownPct)}% - 2px)` }}
+                      />
+                    </div>
+                    <div className="flex justify-between text-xs opacity-75">
+                      <span>{Math.round(lo)}%</span>
+                      <span>Bar marks this forecast ({Math.round(shownPct)}%)</span>
+                      <span>{Math.round(hi)}%</span>
+                    </div>
+                  </div>
+                );
+              })()}
+              
+              {!espMedian && correctedInflow && (
+                <div className="mt-6 pt-4 border-t border-white/30">
+                  <div className="text-sm font-semibold mb-3 opacity-90 uppercase tracking-wider">
+                    Bias-Corrected Powell Inflow ({CALIBRATION_METHODS[calibrationMethod].label.toLowerCase()}):
+                  </div>
+                  <div className="grid grid-cols-4 gap-4 text-sm">
+                    <div className="bg-white/25 rounded-lg p-2 text-center">
+                      <div className="text-xs font-medium opacity-80">Best estimate</div>
+                      <div className="font-bold">{formatUnits(correctedInflow.valueMAF, 'MAF')}</div>
+                    </div>
+                    {correctedInflow.intervals.map(interval => (
+                      <div key={interval.level} className="bg-white/10 rounded-lg p-2 text-center">
+                        <div className="text-xs font-medium opacity-80">{Math.round(interval.level * 100)}% interval</div>
+                        <div className="font-bold">
+                          {formatUnits(interval.lowMAF, 'MAF', false)}–{formatUnits(interval.highMAF, 'MAF')}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="text-xs opacity-75 mt-2">
+                    The {target.shortLabel.toLowerCase()} forecast mapped onto observed Lake Powell inflow; intervals combine the
+                    forecast and calibration errors (calibration LOO RMSE {formatUnits(inflowCalibration.crossValidated.rmse, 'MAF')}).
+                  </div>
+                </div>
+              )}
+              
+              {categories && (
+                <div className="mt-6 pt-4 border-t border-white/30">
+                  <div className="text-sm font-semibold mb-3 opacity-90 uppercase tracking-wider">
+                    Tercile Probabilities ({PROBABILITY_METHODS[categories.method].label.toLowerCase()}):
+                  </div>
+                  <div className="flex h-9 rounded-lg overflow-hidden text-sm font-semibold text-gray-900">
+                    {TERCILE_CATEGORIES.map(({ key, label }) => {
+                      const probability = categories.probabilities[key];
+                      return (
+                        <div
+                          key={key}
+                          title={`${label}: ${(probability * 100).toFixed(1)}%`}
+                          className={`flex items-center justify-center whitespace-nowrap overflow-hidden ${
+                            key === 'below' ? 'bg-amber-400' : key === 'near' ? 'bg-gray-200' : 'bg-sky-300'
+                          }`}
+                          style={{ width: `${probability * 100}%` }}
+                        >
+                          {probability >= 0.12 && `${Math.round(probability * 100)}%`}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div className="grid grid-cols-3 text-xs opacity-90 mt-1">
+                    <span>Below normal (&lt; {formatTarget(categories.terciles.lower.value)})</span>
+                    <span className="text-center">Near normal</span>
+                    <span className="text-right">Above normal (≥ {formatTarget(categories.terciles.upper.value)})</span>
+                  </div>
+                  {categories.thresholds.length > 0 && (
+                    <div className="flex flex-wrap gap-3 text-sm mt-3">
+                      {categories.thresholds.map((t, i) => (
+                        <div key={`${t.value}-${i}`} className="bg-white/10 rounded-lg px-3 py-1.5">
+                          P({target.shortLabel.toLowerCase()} &lt; {formatTarget(t.value)}):{' '}
+                          <span className="font-bold">{(t.probability * 100).toFixed(0)}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="text-xs opacity-75 mt-2">
+                    Terciles split the {baselineLabel} water years into equal thirds; climatology gives each category 33%.
+                  </div>
+                </div>
+              )}
+              
+              {!espMedian && monteCarlo && monteCarlo.samples > 0 && (() => {
+                const lo = monteCarlo.histogram[0].binStart;
+                const hi = monteCarlo.histogram[monteCarlo.histogram.length - 1].binEnd;
+                const maxCount = Math.max(...monteCarlo.histogram.map(bin => bin.count));
+                const toPos = (v) => Math.min(Math.max(((v - lo) / (hi - lo)) * 100, 0), 100);
+                const median = monteCarlo.percentiles.find(p => p.level === 0.5);
+                return (
+                  <div className="mt-6 pt-4 border-t border-white/30">
+                    <div className="text-sm font-semibold mb-3 opacity-90 uppercase tracking-wider">
+                      Monte Carlo Distribution ({monteCarlo.samples} draws):
+                    </div>
+                    <div className="relative h-16 mb-1">
+                      {monteCarlo.histogram.map((bin, idx) => (
+                        <div
+                          key={idx}
+                          className="absolute bottom-0 bg-white/40 rounded-t-sm"
+                          style={{
+                            left: `${toPos(bin.binStart)}%`,
+                            width: `${toPos(bin.binEnd) - toPos(bin.binStart)}%`,
+                            height: `${(bin.count / maxCount) * 100}%`
+                          }}
+                        />
+                      ))}
+                      <div
+                        className="absolute -top-1 -bottom-1 w-1 bg-white rounded"
+                        style={{ left: `calc(${toPos(forecastedFlowPct)}% - 2px)` }}
+                        title="Deterministic forecast"
+                      />
+                    </div>
+                    <div className="flex justify-between text-xs opacity-75 mb-3">
+                      <span>{Math.round(lo)}%</span>
+                      <span>Bar marks the deterministic forecast ({Math.round(forecastedFlowPct)}%)</span>
+                      <span>{Math.round(hi)}%</span>
+                    </div>
+                    <div className="grid grid-cols-7 gap-2 text-sm">
+                      {monteCarlo.percentiles.map(p => (
+                        <div key={p.level} className={`rounded-lg p-2 text-center ${p.level === 0.5 ? 'bg-white/25' : 'bg-white/10'}`}>
+                          <div className="text-xs font-medium opacity-80">P{Math.round(p.level * 100)}</div>
+                          <div className="font-bold">{Math.round(p.pct)}%</div>
+                          <div className="text-xs opacity-90">{formatTarget(p.value, false)}</div>
+                          {inflowCalibration && (
+                            <div className="text-xs opacity-75">{formatUnits(inflowCalibration.apply(p.value), 'MAF', false)}</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    <div className="text-xs opacity-75 mt-2">
+                      Median {formatTarget(median.value)} vs deterministic {formatTarget(forecastedFlowValue)};
+                      mean {formatTarget(monteCarlo.mean.value, false)} ± {formatTarget(monteCarlo.sd.value)}.
+                    </div>
+                    {monteCarlo.thresholds.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3 text-sm">
+                        {monteCarlo.thresholds.map((t, i) => (
+                          <div key={`${t.value}-${i}`} className="bg-white/10 rounded-lg px-3 py-1.5">
+                            P(below {formatTarget(t.value)}):{' '}
+                            <span className="font-bold">{(t.probability * 100).toFixed(0)}%</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })()}
+              
+              {rangeWarnings.length > 0 && (
+                <div className="mt-4 p-3 bg-amber-100 text-amber-900 rounded-lg flex gap-2 text-sm">
+                  <AlertCircle className="w-5 h-5 flex-shrink-0 text-amber-600" />
+                  <div>
+                    <p className="font-semibold">Scenario is outside the training range — the forecast is an extrapolation.</p>
+                    <ul className="list-disc list-inside">
+                      {rangeWarnings.map(w => <li key={w}>{w}</li>)}
+                    </ul>
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Scatter Plot Panel (Bottom) */}
             <div className="bg-white rounded-xl shadow-lg p-6 flex-grow">
-              <h2 className="text-xl font-bold text-gray-800 mb-4">
-                SWE vs Streamflow Relationship
-              </h2>
-              <div className="mb-4 flex items-center gap-6 text-sm flex-wrap">
-                <div className="flex items-center gap-2">
-                  <div className="w-4 h-4 rounded-full" style={{ backgroundColor: 'rgb(215, 48, 39)' }}></div>
-                  <span>Dry Spring</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-4 h-4 rounded-full" style={{ backgroundColor: 'rgb(250, 220, 50)' }}></div>
-                  <span>Normal Spring</span>
+              <div className="flex items-center justify-between mb-4 flex-wrap gap-3">
+                <h2 className="text-xl font-bold text-gray-800">
+                  {chartTab === 'scatter'
+                    ? `${scatterX.shortLabel} vs ${scatterY.label} Relationship`
+                    : chartTab === 'esp' ? `ESP Exceedance Curve: ${target.label}` : 'Water-Year Time Series'}
+                </h2>
+                <div className="flex bg-gray-100 rounded-lg p-1 text-sm font-medium">
+                  {[
+                    { key: 'scatter', label: 'Scatter' },
+                    { key: 'timeseries', label: 'Time series' },
+                    ...(espMode ? [{ key: 'esp', label: 'ESP ensemble' }] : [])
+                  ].map(tab => (
+                    <button
+                      key={tab.key}
+                      onClick={() => setChartTab(tab.key)}
+                      className={`px-3 py-1 rounded-md transition-colors ${chartTab === tab.key ? 'bg-white shadow text-gray-900' : 'text-gray-600 hover:text-gray-900'}`}
+                    >
+                      {tab.label}
+                    </button>
+                  ))}
                 </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-4 h-4 rounded-full" style={{ backgroundColor: 'rgb(30, 120, 240)' }}></div>
-                  <span>Wet Spring</span>
+              </div>
+              {chartTab === 'scatter' && (
+                <>
+                <div className="mb-4 flex items-center gap-4 text-sm flex-wrap">
+                  {[
+                    { channel: 'x', label: 'X axis' },
+                    { channel: 'y', label: 'Y axis' },
+                    { channel: 'color', label: 'Color' },
+                    { channel: 'size', label: 'Size' }
+                  ].map(({ channel, label }) => (
+                    <div key={channel} className="flex items-center gap-2">
+                      <span className="text-gray-600">{label}</span>
+                      <select
+                        className="p-1.5 border border-gray-300 rounded-lg bg-white"
+                        value={scatterEncoding[channel]}
+                        onChange={(e) => setScatterEncoding({ ...scatterEncoding, [channel]: e.target.value })}
+                      >
+                        {channel === 'y' && <option value="">Forecast target ({target.shortLabel})</option>}
+                        {dataVariables.map(v => <option key={v.key} value={v.key}>{v.shortLabel}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                  <label className="flex items-center gap-2 text-gray-700">
+                    <input type="checkbox" checked={scatterShowPct} onChange={(e) => setScatterShowPct(e.target.checked)} className="accent-blue-600" />
+                    % of average
+                  </label>
                 </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 rounded-full bg-gray-600"></div>
-                  <span className="mr-2">Small</span>
-                  <div className="w-4 h-4 rounded-full bg-gray-600"></div>
-                  <span>Large = High Fall SM</span>
+                <div className="mb-4 flex items-center gap-6 text-sm flex-wrap">
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded-full" style={{ backgroundColor: 'rgb(215, 48, 39)' }}></div>
+                    <span>Low {scatterColor.shortLabel}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded-full" style={{ backgroundColor: 'rgb(250, 220, 50)' }}></div>
+                    <span>Normal {scatterColor.shortLabel}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded-full" style={{ backgroundColor: 'rgb(30, 120, 240)' }}></div>
+                    <span>High {scatterColor.shortLabel}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-2 h-2 rounded-full bg-gray-600"></div>
+                    <span className="mr-2">Small</span>
+                    <div className="w-4 h-4 rounded-full bg-gray-600"></div>
+                    <span>Large = High {scatterSize.shortLabel}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded-full border-2 border-gray-900"></div>
+                    <span>Analog year</span>
+                  </div>
+                  {influence.length > 0 && (
+                    <div className="flex items-center gap-2">
+                      <div className="w-4 h-4 rounded-full border-2 border-dashed border-amber-600"></div>
+                      <span>Influential year</span>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <span className="text-gray-400 font-bold leading-none">✕</span>
+                    <span>Excluded (click a point to toggle)</span>
+                  </div>
+                  {forecastPoint && comparedScenarios.map(s => (
+                    <div key={s.id} className="flex items-center gap-2">
+                      <div className="w-3 h-3 rotate-45" style={{ backgroundColor: s.marker.color }}></div>
+                      <span>{s.name}</span>
+                    </div>
+                  ))}
                 </div>
+                {!forecastPoint && (
+                  <p className="mb-4 text-xs text-gray-500">
+                    The forecast and saved scenarios are only plotted when both axes are predictors or the forecast target.
+                  </p>
+                )}
+                </>
+              )}
+              {/* The scatter stays mounted, offscreen on the other tabs, so exported briefs always have a chart to snapshot */}
+              <div
+                ref={scatterChartRef}
+                className={chartTab === 'scatter' ? '' : 'fixed top-0 -left-[10000px] w-[900px] pointer-events-none'}
+                aria-hidden={chartTab !== 'scatter'}
+              >
+                <ResponsiveContainer width="100%" height={500}>
+                  <ScatterChart margin={{ top: 20, right: 30, bottom: 60, left: 60 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis 
+                      dataKey="x" 
+                      type="number"
+                      {...scatterAxisScale(scatterX)}
+                      label={{ value: scatterAxisLabel(scatterX), position: 'insideBottom', offset: -10, style: { fontSize: 14, fontWeight: 600 } }}
+                    />
+                    <YAxis 
+                      dataKey="y"
+                      type="number"
+                      {...scatterAxisScale(scatterY)}
+                      label={{ value: scatterAxisLabel(scatterY), angle: -90, position: 'insideLeft', offset: 10, style: { fontSize: 14, fontWeight: 600, textAnchor: 'middle' } }}
+                    />
+                    <ZAxis dataKey="size" range={[100, 400]} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <ReferenceLine x={scatterValue(scatterX, 100)} stroke="#666" strokeWidth={2} />
+                    <ReferenceLine y={scatterValue(scatterY, 100)} stroke="#666" strokeWidth={2} />
+                
+                    {years.map((year) => {
+                      const isAnalog = analogYears.some(a => a.year === year.year);
+                      const yearInfluence = influence.find(d => d.year === year.year);
+                      const isFlagged = yearInfluence?.flags.length > 0;
+                      return (
+                        <Scatter
+                          key={year.year}
+                          data={[{
+                            ...year,
+                            influence: yearInfluence,
+                            x: scatterValue(scatterX, year[scatterX.pctKey]),
+                            y: scatterValue(scatterY, year[scatterY.pctKey]),
+                            size: getSizeScale(scatterSize, year[scatterSize.pctKey])
+                          }]}
+                          fill={year.included ? getColor(scatterColor, year[scatterColor.pctKey]) : '#9ca3af'}
+                          fillOpacity={!year.included ? 0.5 : isAnalog ? 0.9 : 0.6}
+                          stroke={isAnalog ? '#111827' : isFlagged ? '#d97706' : undefined}
+                          strokeWidth={isAnalog || isFlagged ? 2 : 0}
+                          strokeDasharray={isFlagged && !isAnalog ? '3 2' : undefined}
+                          shape={year.included ? 'circle' : 'cross'}
+                          onClick={() => toggleYearExcluded(year.year)}
+                          cursor="pointer"
+                        />
+                      );
+                    })}
+                
+                    {forecastPoint && (
+                      <Scatter
+                        data={[{
+                          year: 'Forecast',
+                          ...forecastPoint,
+                          error95: forecastError(0.95).map(e => scatterValue(scatterY, e)),
+                          error80: forecastError(0.8).map(e => scatterValue(scatterY, e))
+                        }]}
+                        fill="#ef4444"
+                        shape="star"
+                      >
+                        {scatterY.isTarget && <ErrorBar dataKey="error95" direction="y" width={8} strokeWidth={1.5} stroke="#ef4444" />}
+                        {scatterY.isTarget && <ErrorBar dataKey="error80" direction="y" width={0} strokeWidth={4} stroke="#ef4444" />}
+                      </Scatter>
+                    )}
+                
+                    {forecastPoint && comparedScenarios.map(s => (
+                      <Scatter
+                        key={s.id}
+                        data={[{
+                          year: 'Saved',
+                          scenario: s,
+                          ...scenarioPoint(s.inputs, s.currentPct)
+                        }]}
+                        fill={s.marker.color}
+                        shape={s.marker.shape}
+                      />
+                    ))}
+                  </ScatterChart>
+                </ResponsiveContainer>
               </div>
-              <ResponsiveContainer width="100%" height={500}>
-                <ScatterChart margin={{ top: 20, right: 30, bottom: 60, left: 60 }}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis 
-                    dataKey="swe_pct" 
-                    type="number"
-                    domain={[
-                      Math.floor(ranges.swe_pct.min / 25) * 25,
-                      Math.ceil(ranges.swe_pct.max / 25) * 25
-                    ]}
-                    ticks={(() => {
-                      const min = Math.floor(ranges.swe_pct.min / 25) * 25;
-                      const max = Math.ceil(ranges.swe_pct.max / 25) * 25;
-                      const ticks = [];
-                      for (let i = min; i <= max; i += 25) {
-                        ticks.push(i);
-                      }
-                      if (!ticks.includes(100)) {
-                        ticks.push(100);
-                        ticks.sort((a, b) => a - b);
-                      }
-                      return ticks;
-                    })()}
-                    label={{ value: 'April 1st SWE (% of 1991-2020 average)', position: 'insideBottom', offset: -10, style: { fontSize: 14, fontWeight: 600 } }}
-                  />
-                  <YAxis 
-                    dataKey="streamflow_pct"
-                    domain={[
-                      Math.floor(ranges.streamflow_pct.min / 25) * 25,
-                      Math.ceil(ranges.streamflow_pct.max / 25) * 25
-                    ]}
-                    ticks={(() => {
-                      const min = Math.floor(ranges.streamflow_pct.min / 25) * 25;
-                      const max = Math.ceil(ranges.streamflow_pct.max / 25) * 25;
-                      const ticks = [];
-                      for (let i = min; i <= max; i += 25) {
-                        ticks.push(i);
-                      }
-                      if (!ticks.includes(100)) {
-                        ticks.push(100);
-                        ticks.sort((a, b) => a - b);
-                      }
-                      return ticks;
-                    })()}
-                    label={{ value: 'Annual Streamflow (% of 1991-2020 average)', angle: -90, position: 'insideLeft', offset: 10, style: { fontSize: 14, fontWeight: 600, textAnchor: 'middle' } }}
-                  />
-                  <ZAxis dataKey="size" range={[100, 400]} />
-                  <Tooltip content={<CustomTooltip />} />
-                  <ReferenceLine x={100} stroke="#666" strokeWidth={2} />
-                  <ReferenceLine y={100} stroke="#666" strokeWidth={2} />
+              
+              {chartTab === 'esp' && espForecast && (
+                <>
+                  <p className="mb-4 text-sm text-gray-600">
+                    Each point is one ensemble trace: the current SWE ({Math.round(sweApr1Pct)}%) and fall soil moisture
+                    ({Math.round(fallSMPct)}%) with the spring precipitation of the labeled water year, ranked by exceedance probability.
+                  </p>
+                  <ResponsiveContainer width="100%" height={460}>
+                    <LineChart
+                      data={espForecast.traces.map(t => ({ ...t, exceedancePct: t.exceedance * 100 }))}
+                      margin={{ top: 20, right: 30, bottom: 40, left: 20 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="exceedancePct" type="number" domain={[0, 100]} ticks={[0, 10, 30, 50, 70, 90, 100]}
+                        label={{ value: 'Exceedance probability (%)', position: 'insideBottom', offset: -15 }} />
+                      <YAxis label={{ value: `${target.shortLabel} (% of ${baselineLabel} average)`, angle: -90, position: 'insideLeft' }} />
+                      <Tooltip
+                        content={({ active, payload }) => {
+                          if (!active || !payload || payload.length === 0) return null;
+                          const trace = payload[0].payload;
+                          return (
+                            <div className="bg-white p-3 border-2 border-cyan-500 rounded-lg shadow-lg text-sm">
+                              <p className="font-bold">Spring precip of WY {trace.year}</p>
+                              <p>Spring precip: {trace.springPrecipPct.toFixed(0)}% of avg</p>
+                              <p className="font-semibold mt-1">
+                                {target.shortLabel}: {trace.pct.toFixed(0)}% ({formatTarget(trace.value)})
+                              </p>
+                              <p className="text-xs text-gray-600">Exceedance {trace.exceedancePct.toFixed(0)}%</p>
+                            </div>
+                          );
+                        }}
+                      />
+                      <ReferenceLine y={100} stroke="#666" />
+                      {espForecast.exceedance.map(e => (
+                        <ReferenceLine key={e.level} x={e.level * 100} stroke="#0891b2" strokeDasharray="4 4"
+                          label={{ value: `${Math.round(e.pct)}%`, position: 'top', fontSize: 11, fill: '#0e7490' }} />
+                      ))}
+                      <Line type="monotone" dataKey="pct" stroke="#0891b2" strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false}>
+                        <LabelList dataKey="year" position="right" fontSize={9} fill="#6b7280" />
+                      </Line>
+                    </LineChart>
+                  </ResponsiveContainer>
+                </>
+              )}
+              
+              {chartTab === 'timeseries' && (
+                <>
+                  <div className="mb-4 flex items-center gap-4 text-sm flex-wrap">
+                    <select
+                      className="p-2 border border-gray-300 rounded-lg bg-white text-gray-700 font-medium"
+                      value={tsVariable.key}
+                      onChange={(e) => setTsVariableKey(e.target.value)}
+                    >
+                      {dataVariables.map(v => <option key={v.key} value={v.key}>{v.label}</option>)}
+                    </select>
+                    <div className="flex items-center gap-2">
+                      <span className="text-gray-600">Trend window</span>
+                      <select
+                        className="p-1.5 border border-gray-300 rounded-lg bg-white"
+                        value={tsStart}
+                        onChange={(e) => setTsWindow({ start: parseInt(e.target.value), end: tsEnd })}
+                      >
+                        {years.filter(y => y.year < tsEnd - 2).map(y => <option key={y.year} value={y.year}>{y.year}</option>)}
+                      </select>
+                      <span>to</span>
+                      <select
+                        className="p-1.5 border border-gray-300 rounded-lg bg-white"
+                        value={tsEnd}
+                        onChange={(e) => setTsWindow({ start: tsStart, end: parseInt(e.target.value) })}
+                      >
+                        {years.filter(y => y.year > tsStart + 2).map(y => <option key={y.year} value={y.year}>{y.year}</option>)}
+                      </select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-gray-600">Moving average</span>
+                      <select
+                        className="p-1.5 border border-gray-300 rounded-lg bg-white"
+                        value={tsMovingAverage}
+                        onChange={(e) => setTsMovingAverage(parseInt(e.target.value))}
+                      >
+                        <option value={0}>Off</option>
+                        <option value={5}>5-year</option>
+                        <option value={10}>10-year</option>
+                      </select>
+                    </div>
+                    <label className="flex items-center gap-2 text-gray-700">
+                      <input type="checkbox" checked={tsShowTrend} onChange={(e) => setTsShowTrend(e.target.checked)} className="accent-blue-600" />
+                      Sen's slope
+                    </label>
+                    <label className="flex items-center gap-2 text-gray-700">
+                      <input type="checkbox" checked={tsShowPct} onChange={(e) => setTsShowPct(e.target.checked)} className="accent-blue-600" />
+                      % of average
+                    </label>
+                  </div>
                   
-                  {years.map((year) => (
-                    <Scatter
-                      key={year.year}
-                      data={[{ ...year, size: getSizeScale(year.fallSM_pct) }]}
-                      fill={getColor(year.springPrecip_pct)}
-                      fillOpacity={0.6}
-                      shape="circle"
+                  <ResponsiveContainer width="100%" height={340}>
+                    <LineChart data={tsChartData} margin={{ top: 10, right: 30, bottom: 30, left: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="year" type="number" domain={['dataMin', 'dataMax']} allowDecimals={false}
+                        label={{ value: 'Water Year', position: 'insideBottom', offset: -15 }} />
+                      <YAxis label={{ value: tsShowPct ? `% of ${baselineLabel} average` : tsVariable.unit, angle: -90, position: 'insideLeft' }} />
+                      <Tooltip formatter={(value) => (value === null ? '—' : `${Number(value).toFixed(tsShowPct ? 0 : tsVariable.decimals)}${tsShowPct ? '%' : ` ${tsVariable.unit}`}`)} />
+                      <Legend verticalAlign="top" />
+                      {tsShowPct && <ReferenceLine y={100} stroke="#666" />}
+                      <ReferenceArea x1={tsStart} x2={tsEnd} fill="#dbeafe" fillOpacity={0.3} />
+                      <Line type="linear" dataKey="value" name={tsVariable.label} stroke={tsVariable.color} strokeWidth={2} dot={{ r: 3 }} />
+                      {tsMovingAverage > 0 && (
+                        <Line type="monotone" dataKey="movingAverage" name={`${tsMovingAverage}-year moving average`} stroke="#374151" strokeWidth={2} dot={false} connectNulls={false} />
+                      )}
+                      {tsShowTrend && (
+                        <Line type="linear" dataKey="trend" name="Sen's slope" stroke="#ef4444" strokeWidth={2} strokeDasharray="6 4" dot={false} />
+                      )}
+                    </LineChart>
+                  </ResponsiveContainer>
+                  
+                  <h3 className="text-sm font-semibold text-gray-700 mt-4 mb-2">
+                    Trend statistics, WY {tsStart}-{tsEnd} ({trendStats[0]?.n ?? 0} years)
+                  </h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-gray-700">
+                      <thead>
+                        <tr className="border-b-2 border-gray-200 text-left">
+                          <th className="py-2 pr-4 font-semibold">Variable</th>
+                          <th className="py-2 pr-4 font-semibold text-right">Sen's slope / decade</th>
+                          <th className="py-2 pr-4 font-semibold text-right">% of avg / decade</th>
+                          <th className="py-2 pr-4 font-semibold text-right">Kendall τ</th>
+                          <th className="py-2 pr-4 font-semibold text-right">MK Z</th>
+                          <th className="py-2 font-semibold text-right">p value</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {trendStats.map(t => (
+                          <tr
+                            key={t.variable.key}
+                            className={`border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${t.variable.key === tsVariable.key ? 'bg-blue-50' : ''}`}
+                            onClick={() => setTsVariableKey(t.variable.key)}
+                          >
+                            <td className="py-2 pr-4 font-medium">{t.variable.label}</td>
+                            <td className="py-2 pr-4 text-right font-mono">
+                              {t.slopeValue >= 0 ? '+' : ''}{(t.slopeValue * 10).toFixed(t.variable.decimals)} {t.variable.unit}
+                            </td>
+                            <td className="py-2 pr-4 text-right font-mono">
+                              {t.slopePct >= 0 ? '+' : ''}{(t.slopePct * 10).toFixed(1)}%
+                            </td>
+                            <td className="py-2 pr-4 text-right font-mono">{t.mk.tau.toFixed(3)}</td>
+                            <td className="py-2 pr-4 text-right font-mono">{t.mk.z.toFixed(2)}</td>
+                            <td className={`py-2 text-right font-mono ${t.mk.pValue < 0.05 ? 'text-red-600 font-semibold' : ''}`}>
+                              {formatPValue(t.mk.pValue)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-3">
+                    Mann-Kendall tests for a monotonic trend within the selected window (two-sided p values; below 0.05 in red).
+                    Sen's slope is the median of all pairwise slopes. The shaded band on the chart marks the trend window.
+                  </p>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {sensitivity && (
+          <div className="mt-8 bg-white rounded-xl shadow-lg p-8">
+            <h2 className="text-2xl font-bold text-gray-800 mb-6">Forecast Sensitivity</h2>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-800 mb-1">Tornado Chart</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  Forecast range as each input moves across its historical range, the others held at the current values.
+                </p>
+                <ResponsiveContainer width="100%" height={240}>
+                  <BarChart
+                    layout="vertical"
+                    data={sensitivity.tornado.map(t => ({
+                      ...t,
+                      label: variableByKey(t.key).shortLabel,
+                      range: [Math.min(t.atMin, t.atMax), Math.max(t.atMin, t.atMax)]
+                    }))}
+                    margin={{ top: 10, right: 30, bottom: 30, left: 20 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                    <XAxis type="number" domain={['auto', 'auto']}
+                      label={{ value: `${target.shortLabel} (% of ${baselineLabel} average)`, position: 'insideBottom', offset: -15 }} />
+                    <YAxis type="category" dataKey="label" width={100} />
+                    <Tooltip
+                      content={({ active, payload }) => {
+                        if (!active || !payload || payload.length === 0) return null;
+                        const t = payload[0].payload;
+                        return (
+                          <div className="bg-white p-3 border-2 border-blue-500 rounded-lg shadow-lg text-sm">
+                            <p className="font-bold">{t.label}</p>
+                            <p>At {t.min.toFixed(0)}% (historical low): {t.atMin.toFixed(0)}%</p>
+                            <p>At {t.max.toFixed(0)}% (historical high): {t.atMax.toFixed(0)}%</p>
+                            <p className="font-semibold mt-1">Swing: {t.swing.toFixed(0)} pts</p>
+                          </div>
+                        );
+                      }}
                     />
+                    <ReferenceLine x={forecastedFlowPct} stroke="#ef4444" strokeWidth={2} />
+                    <Bar dataKey="range" isAnimationActive={false}>
+                      {sensitivity.tornado.map(t => (
+                        <Cell key={t.key} fill={variableByKey(t.key).color} />
+                      ))}
+                      <LabelList dataKey="swing" position="right" formatter={(v) => `${Math.round(v)} pts`} fontSize={11} />
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              
+              <div>
+                <div className="flex items-center justify-between flex-wrap gap-2 mb-1">
+                  <h3 className="text-lg font-semibold text-gray-800">Response Surface</h3>
+                  <div className="flex items-center gap-2 text-sm">
+                    {[0, 1].map(axis => (
+                      <select
+                        key={axis}
+                        className="p-1.5 border border-gray-300 rounded-lg bg-white"
+                        value={surfaceAxes[axis]}
+                        onChange={(e) => {
+                          const next = [...surfaceAxes];
+                          next[axis] = e.target.value;
+                          // Picking the other axis' predictor swaps the two
+                          if (next[0] === next[1]) next[1 - axis] = surfaceAxes[axis];
+                          setSurfaceAxes(next);
+                        }}
+                      >
+                        {PREDICTOR_KEYS.map(key => (
+                          <option key={key} value={key}>{axis === 0 ? 'X' : 'Y'}: {variableByKey(key).shortLabel}</option>
+                        ))}
+                      </select>
+                    ))}
+                  </div>
+                </div>
+                {(() => {
+                  const surface = sensitivity.surface;
+                  const heldKey = PREDICTOR_KEYS.find(key => !surfaceAxes.includes(key));
+                  const heldPct = { swe: sweApr1Pct, fallSM: fallSMPct, springPrecip: springPrecipPct }[heldKey];
+                  const width = 520, height = 360;
+                  const margin = { top: 10, right: 10, bottom: 50, left: 60 };
+                  const plotWidth = width - margin.left - margin.right;
+                  const plotHeight = height - margin.top - margin.bottom;
+                  const sx = (v) => margin.left + ((v - surface.xRange.min) / (surface.xRange.max - surface.xRange.min)) * plotWidth;
+                  const sy = (v) => margin.top + plotHeight - ((v - surface.yRange.min) / (surface.yRange.max - surface.yRange.min)) * plotHeight;
+                  const cellWidth = plotWidth / surface.steps;
+                  const cellHeight = plotHeight / surface.steps;
+                  const colorOf = (pct) => spectralColor((pct - surface.min) / (surface.max - surface.min || 1));
+                  const ticks = (range) => Array.from({ length: 5 }, (_, i) => range.min + (i / 4) * (range.max - range.min));
+                  const current = { swe: sweApr1Pct, fallSM: fallSMPct, springPrecip: springPrecipPct };
+                  return (
+                    <>
+                      <p className="text-sm text-gray-600 mb-2">
+                        Forecast {target.shortLabel.toLowerCase()} with {variableByKey(heldKey).shortLabel} held at {Math.round(heldPct)}%;
+                        dots are historical years, the ring is the current scenario.
+                      </p>
+                      <svg viewBox={`0 0 ${width} ${height}`} className="w-full">
+                        {surface.cells.map(c => (
+                          <rect
+                            key={`${c.xi}-${c.yi}`}
+                            x={margin.left + c.xi * cellWidth}
+                            y={margin.top + plotHeight - (c.yi + 1) * cellHeight}
+                            width={cellWidth + 0.5}
+                            height={cellHeight + 0.5}
+                            fill={Number.isFinite(c.pct) ? colorOf(c.pct) : '#e5e7eb'}
+                          >
+                            <title>{`${c.x.toFixed(0)}%, ${c.y.toFixed(0)}% → ${c.pct.toFixed(0)}%`}</title>
+                          </rect>
+                        ))}
+                        {ticks(surface.xRange).map(v => (
+                          <text key={`x${v}`} x={sx(v)} y={margin.top + plotHeight + 16} textAnchor="middle" fontSize={11} fill="#4b5563">{v.toFixed(0)}</text>
+                        ))}
+                        {ticks(surface.yRange).map(v => (
+                          <text key={`y${v}`} x={margin.left - 6} y={sy(v) + 4} textAnchor="end" fontSize={11} fill="#4b5563">{v.toFixed(0)}</text>
+                        ))}
+                        <text x={margin.left + plotWidth / 2} y={height - 8} textAnchor="middle" fontSize={12} fontWeight={600} fill="#374151">
+                          {variableByKey(surface.xKey).label} (% of avg)
+                        </text>
+                        <text x={14} y={margin.top + plotHeight / 2} textAnchor="middle" fontSize={12} fontWeight={600} fill="#374151"
+                          transform={`rotate(-90 14 ${margin.top + plotHeight / 2})`}>
+                          {variableByKey(surface.yKey).label} (% of avg)
+                        </text>
+                        {years.map(y => (
+                          <circle key={y.year} cx={sx(y[`${surface.xKey}_pct`])} cy={sy(y[`${surface.yKey}_pct`])} r={3.5}
+                            fill="#111827" fillOpacity={0.75} stroke="white" strokeWidth={1}>
+                            <title>{`WY ${y.year}: ${y[target.pctKey].toFixed(0)}% observed`}</title>
+                          </circle>
+                        ))}
+                        <circle cx={sx(current[surface.xKey])} cy={sy(current[surface.yKey])} r={8} fill="none" stroke="#ef4444" strokeWidth={3}>
+                          <title>{`Current scenario: ${forecastedFlowPct.toFixed(0)}%`}</title>
+                        </circle>
+                      </svg>
+                      <div className="flex items-center gap-2 text-xs text-gray-600 mt-1">
+                        <span>{Math.round(surface.min)}%</span>
+                        <div
+                          className="flex-grow h-3 rounded"
+                          style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(spectralColor).join(', ')})` }}
+                        />
+                        <span>{Math.round(surface.max)}%</span>
+                      </div>
+                    </>
+                  );
+                })()}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {inflowCalibration && (() => {
+          const xs = inflowCalibration.points.map(p => p.simulated);
+          const lo = Math.min(...xs);
+          const hi = Math.max(...xs);
+          const curve = Array.from({ length: 41 }, (_, i) => lo + ((hi - lo) * i) / 40)
+            .map(x => ({ x: toDisplayUnits(x, target.unit), y: toDisplayUnits(inflowCalibration.apply(x), 'MAF') }));
+          const inflowUnit = DISPLAY_UNITS[unitFor('MAF')].label;
+          return (
+            <div className="mt-8 bg-white rounded-xl shadow-lg p-8">
+              <div className="flex items-center justify-between mb-2 flex-wrap gap-3">
+                <div className="flex items-center gap-2">
+                  <Gauge className="w-6 h-6 text-blue-600" />
+                  <h2 className="text-2xl font-bold text-gray-800">Calibration to Lake Powell Inflow</h2>
+                </div>
+                <select
+                  className="p-2 border border-gray-300 rounded-lg bg-white text-gray-700 font-medium text-sm"
+                  value={calibrationMethod}
+                  onChange={(e) => setCalibrationMethod(e.target.value as CalibrationMethod)}
+                >
+                  {Object.entries(CALIBRATION_METHODS).map(([key, m]) => (
+                    <option key={key} value={key} disabled={!inflowCalibrations[key]}>{m.label}</option>
                   ))}
-                  
-                  <Scatter
-                    data={[{
-                      year: 'Forecast',
-                      swe_pct: sweApr1Pct,
-                      streamflow_pct: forecastedFlowPct,
-                      size: getSizeScale(fallSMPct)
-                    }]}
-                    fill="#ef4444"
-                    shape="star"
+                </select>
+              </div>
+              <p className="text-sm text-gray-600 mb-6">
+                Maps VIC-simulated {target.label.toLowerCase()} onto the observed unregulated inflow over the {inflowCalibration.n} training
+                years, so every forecast also reads as a bias-corrected Lake Powell inflow.
+                {inflowCalibration.coefficients && ` Inflow = ${inflowCalibration.coefficients.intercept.toFixed(2)} + ${inflowCalibration.coefficients.slope.toFixed(4)} × flow (mm), R² ${inflowCalibration.coefficients.r2.toFixed(3)}.`}
+              </p>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ScatterChart margin={{ top: 10, right: 20, bottom: 30, left: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="x" type="number" domain={['auto', 'auto']} tick={{ fontSize: 12 }}
+                        label={{ value: `VIC ${target.shortLabel.toLowerCase()} (${targetUnit})`, position: 'insideBottom', offset: -15, style: { fontSize: 12 } }} />
+                      <YAxis dataKey="y" type="number" domain={['auto', 'auto']} tick={{ fontSize: 12 }}
+                        label={{ value: `Observed inflow (${inflowUnit})`, angle: -90, position: 'insideLeft', style: { fontSize: 12 } }} />
+                      <Tooltip
+                        content={({ active, payload }) => {
+                          if (!active || !payload || payload.length === 0 || payload[0].payload.year === undefined) return null;
+                          const point = payload[0].payload;
+                          return (
+                            <div className="bg-white p-3 border border-gray-300 rounded-lg shadow text-sm">
+                              <p className="font-bold">WY {point.year}</p>
+                              <p>VIC: {formatTarget(point.simulated)}</p>
+                              <p>Observed: {formatUnits(point.observed, 'MAF')}</p>
+                              <p>Corrected: {formatUnits(point.corrected, 'MAF')}</p>
+                            </div>
+                          );
+                        }}
+                      />
+                      <Scatter
+                        data={inflowCalibration.points.map(p => ({ ...p, x: toDisplayUnits(p.simulated, target.unit), y: toDisplayUnits(p.observed, 'MAF') }))}
+                        fill="#2563eb"
+                        fillOpacity={0.7}
+                      />
+                      <Scatter data={curve} line={{ stroke: '#ef4444', strokeWidth: 2 }} shape={() => <g />} isAnimationActive={false} />
+                    </ScatterChart>
+                  </ResponsiveContainer>
+                </div>
+                <div>
+                  <table className="w-full text-sm text-gray-700">
+                    <thead>
+                      <tr className="border-b-2 border-gray-200 text-left">
+                        <th className="py-2 pr-4 font-semibold">Method</th>
+                        <th className="py-2 pr-4 font-semibold text-right">Fit RMSE</th>
+                        <th className="py-2 pr-4 font-semibold text-right">LOO RMSE</th>
+                        <th className="py-2 pr-4 font-semibold text-right">LOO bias</th>
+                        <th className="py-2 pr-4 font-semibold text-right">LOO NSE</th>
+                        <th className="py-2 font-semibold text-right">LOO r</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {Object.keys(CALIBRATION_METHODS).filter(key => inflowCalibrations[key]).map(key => {
+                        const c = inflowCalibrations[key];
+                        return (
+                          <tr
+                            key={key}
+                            onClick={() => setCalibrationMethod(key as CalibrationMethod)}
+                            className={`border-b border-gray-100 cursor-pointer ${key === calibrationMethod ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                          >
+                            <td className="py-2 pr-4 font-medium">{CALIBRATION_METHODS[key].label}</td>
+                            <td className="py-2 pr-4 text-right font-mono">{formatUnits(c.inSample.rmse, 'MAF', false)}</td>
+                            <td className="py-2 pr-4 text-right font-mono">{formatUnits(c.crossValidated.rmse, 'MAF', false)}</td>
+                            <td className="py-2 pr-4 text-right font-mono">
+                              {c.crossValidated.bias >= 0 ? '+' : ''}{formatUnits(c.crossValidated.bias, 'MAF', false)}
+                            </td>
+                            <td className="py-2 pr-4 text-right font-mono">{c.crossValidated.nse.toFixed(3)}</td>
+                            <td className="py-2 text-right font-mono">{c.crossValidated.r.toFixed(3)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-gray-500 mt-3">
+                    Errors are in {inflowUnit} of inflow. Leave-one-out (LOO) statistics map each year with a calibration fitted
+                    without it. The linear mapping corrects bias and scale; quantile mapping matches the whole distribution of
+                    simulated flow to the observed one, which can follow a curved relation but has no sampling theory, so its
+                    uncertainty is taken as the LOO RMSE.
+                  </p>
+                </div>
+              </div>
+            </div>
+          );
+        })()}
+
+        {basinAggregate && (() => {
+          const fileAreas = basinDrainageAreas(dataset.rows);
+          const interval80 = basinAggregate.intervals.find(i => i.level === 0.8);
+          const pairCorrelations = basinAggregate.residualCorrelation.flatMap((row, i) => row.slice(i + 1));
+          const volumeUnit = DISPLAY_UNITS[unitFor('MAF')].label;
+          const totalAreaKm2 = basinAggregate.basins.length > 0 && basinAggregate.basins.every(r => r.areaKm2 !== null)
+            ? basinAggregate.basins.reduce((sum, r) => sum + r.areaKm2, 0)
+            : null;
+          const formatVolume = (maf, areaKm2) => formatUnits(maf, 'MAF', false, areaKm2 ?? drainageAreaKm2);
+          return (
+            <div className="mt-8 bg-white rounded-xl shadow-lg p-8">
+              <div className="flex items-center gap-2 mb-2">
+                <Layers className="w-6 h-6 text-blue-600" />
+                <h2 className="text-2xl font-bold text-gray-800">Sub-basin Total to Lake Powell</h2>
+              </div>
+              <p className="text-sm text-gray-600 mb-6">
+                Each basin is fitted and forecast separately with the {modelSpec.label.toLowerCase()} model for {target.shortLabel.toLowerCase()},
+                {selectedYear !== null ? ` using each basin's own inputs for WY ${selectedYear},` : ' using the current inputs as % of each basin\'s own average,'}
+                {target.unit === 'mm' ? ' and the runoff depths are converted to volumes by drainage area.' : ' and the volumes are summed.'}
+                {' '}Leave out basins that contain others (such as the whole UCRB) to avoid double counting.
+              </p>
+              
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-gray-700">
+                  <thead>
+                    <tr className="border-b-2 border-gray-200 text-left">
+                      <th className="py-2 pr-4 font-semibold">In total</th>
+                      <th className="py-2 pr-4 font-semibold">Basin</th>
+                      <th className="py-2 pr-4 font-semibold text-right">Drainage area (km²)</th>
+                      <th className="py-2 pr-4 font-semibold text-right">Forecast</th>
+                      <th className="py-2 pr-4 font-semibold text-right">Volume ({volumeUnit})</th>
+                      <th className="py-2 pr-4 font-semibold text-right">80% range ({volumeUnit})</th>
+                      <th className="py-2 font-semibold text-right">Share</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {basins.map(b => {
+                      const row = basinAggregate.basins.find(r => r.basin === b);
+                      const skipped = basinAggregate.skipped.find(r => r.basin === b);
+                      const included = !aggregateExcluded.includes(b);
+                      const range = row?.intervals.find(i => i.level === 0.8);
+                      return (
+                        <tr key={b} className={`border-b border-gray-100 ${b === basin ? 'bg-blue-50' : ''}`}>
+                          <td className="py-2 pr-4">
+                            <input
+                              type="checkbox"
+                              checked={included}
+                              onChange={(e) => setAggregateExcluded(e.target.checked
+                                ? aggregateExcluded.filter(x => x !== b)
+                                : [...aggregateExcluded, b])}
+                              className="accent-blue-600"
+                            />
+                          </td>
+                          <td className="py-2 pr-4 font-medium">
+                            <button onClick={() => setBasin(b)} className="hover:underline" title="Show this basin">{b}</button>
+                          </td>
+                          <td className="py-2 pr-4 text-right">
+                            <input
+                              type="number"
+                              min={0}
+                              value={b in basinAreas ? basinAreas[b] : (fileAreas[b] ?? '')}
+                              placeholder="Enter area"
+                              onChange={(e) => setBasinAreas({ ...basinAreas, [b]: e.target.value })}
+                              className="w-28 p-1 border border-gray-300 rounded text-right"
+                            />
+                          </td>
+                          {row ? (
+                            <>
+                              <td className="py-2 pr-4 text-right font-mono">
+                                {formatUnits(row.forecast.value, target.unit, true, row.areaKm2 ?? drainageAreaKm2)} ({Math.round(row.forecast.pct)}%)
+                              </td>
+                              <td className="py-2 pr-4 text-right font-mono">{formatVolume(row.volumeMAF, row.areaKm2)}</td>
+                              <td className="py-2 pr-4 text-right font-mono">
+                                {formatVolume(range.lowMAF, row.areaKm2)}–{formatVolume(range.highMAF, row.areaKm2)}
+                              </td>
+                              <td className="py-2 text-right font-mono">{(row.share * 100).toFixed(0)}%</td>
+                            </>
+                          ) : (
+                            <td colSpan={4} className="py-2 text-right text-xs text-gray-500">
+                              {included ? `Left out: ${skipped?.reason ?? 'not forecast'}` : 'Not in total'}
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                  {basinAggregate.basins.length > 0 && (
+                    <tfoot>
+                      <tr className="border-t-2 border-gray-200 font-semibold">
+                        <td className="py-2 pr-4"></td>
+                        <td className="py-2 pr-4">Total ({basinAggregate.basins.length} basins)</td>
+                        <td className="py-2 pr-4 text-right font-mono">
+                          {totalAreaKm2 !== null ? Math.round(totalAreaKm2).toLocaleString() : ''}
+                        </td>
+                        <td className="py-2 pr-4 text-right font-mono">{Math.round(basinAggregate.pct)}% of avg</td>
+                        <td className="py-2 pr-4 text-right font-mono">{formatVolume(basinAggregate.totalMAF, totalAreaKm2)}</td>
+                        <td className="py-2 pr-4 text-right font-mono">
+                          {formatVolume(interval80.lowMAF, totalAreaKm2)}–{formatVolume(interval80.highMAF, totalAreaKm2)}
+                        </td>
+                        <td className="py-2 text-right font-mono">100%</td>
+                      </tr>
+                    </tfoot>
+                  )}
+                </table>
+              </div>
+              
+              {basinAggregate.basins.length > 0 && (
+                <div className="flex items-center justify-between flex-wrap gap-3 mt-4 text-xs text-gray-500">
+                  <span>
+                    The total range combines the basin ranges using the correlation of the basins' historical model errors
+                    {pairCorrelations.length > 0
+                      ? basinAggregate.correlationYears >= 3
+                        ? ` (mean pairwise r = ${(pairCorrelations.reduce((sum, r) => sum + r, 0) / pairCorrelations.length).toFixed(2)} over the ${basinAggregate.correlationYears} water years every basin has)`
+                        : ' (taken as fully correlated: fewer than 3 water years are shared by every basin)'
+                      : ''}
+                    ; fully correlated errors would simply add the ranges.
+                  </span>
+                  <button
+                    onClick={() => setReservoirInflow(basinAggregate.totalMAF.toFixed(2))}
+                    className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium text-gray-700"
+                  >
+                    Use total as Lake Powell inflow
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })()}
+
+        <div className="mt-8 bg-white rounded-xl shadow-lg p-8">
+          <div className="flex items-center gap-2 mb-6">
+            <Waves className="w-6 h-6 text-blue-600" />
+            <h2 className="text-2xl font-bold text-gray-800">Lake Powell Projection</h2>
+          </div>
+          
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 text-sm">
+            <div>
+              <label className="block font-semibold text-gray-700 mb-1">Starting condition (Oct 1)</label>
+              <div className="flex gap-2">
+                <select
+                  className="p-2 border border-gray-300 rounded-lg bg-white"
+                  value={reservoirStartMode}
+                  onChange={(e) => {
+                    const mode = e.target.value;
+                    // Carry the current start over so switching units does not change the scenario
+                    if (powellProjection) {
+                      setReservoirStart(mode === 'elevation'
+                        ? powellProjection.startElevation.toFixed(1)
+                        : powellProjection.startStorage.toFixed(2));
+                    }
+                    setReservoirStartMode(mode);
+                  }}
+                >
+                  <option value="elevation">Elevation (ft)</option>
+                  <option value="storage">Live storage (MAF)</option>
+                </select>
+                <input
+                  type="number"
+                  step={reservoirStartMode === 'elevation' ? 1 : 0.1}
+                  value={reservoirStart}
+                  onChange={(e) => setReservoirStart(e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block font-semibold text-gray-700 mb-1">Unregulated inflow (MAF)</label>
+              <input
+                type="number"
+                step={0.1}
+                value={reservoirInflow}
+                placeholder={powellInflowMAF !== null ? powellInflowMAF.toFixed(2) : 'Enter inflow'}
+                onChange={(e) => setReservoirInflow(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-lg"
+              />
+              <div className="text-xs text-gray-500 mt-1">
+                {reservoirInflow === ''
+                  ? (powellInflowMAF !== null ? 'Following the model forecast for the current inputs' : 'No inflow_MAF column in the dataset')
+                  : (
+                    <button onClick={() => setReservoirInflow('')} className="text-blue-600 hover:underline" disabled={powellInflowMAF === null}>
+                      Use model forecast{powellInflowMAF !== null && ` (${powellInflowMAF.toFixed(2)} MAF)`}
+                    </button>
+                  )}
+                {correctedInflow && reservoirInflow !== correctedInflow.valueMAF.toFixed(2) && (
+                  <button onClick={() => setReservoirInflow(correctedInflow.valueMAF.toFixed(2))} className="block text-blue-600 hover:underline">
+                    Use bias-corrected {target.shortLabel.toLowerCase()} ({correctedInflow.valueMAF.toFixed(2)} MAF)
+                  </button>
+                )}
+              </div>
+            </div>
+            <div>
+              <label className="block font-semibold text-gray-700 mb-1">Annual release (MAF)</label>
+              <input
+                type="number"
+                step={0.1}
+                value={reservoirRelease}
+                onChange={(e) => setReservoirRelease(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+          </div>
+          
+          {powellProjection ? (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                {[
+                  { label: 'Start', value: `${powellProjection.startElevation.toFixed(1)} ft`, detail: formatUnits(powellProjection.startStorage, 'MAF') },
+                  { label: 'Evaporation', value: formatUnits(powellProjection.evaporation, 'MAF'), detail: `${POWELL_EVAPORATION_FT} ft/yr over mean area` },
+                  { label: 'End storage', value: formatUnits(powellProjection.endStorage, 'MAF'), detail: `${(powellProjection.endStorage - powellProjection.startStorage >= 0 ? '+' : '')}${formatUnits(powellProjection.endStorage - powellProjection.startStorage, 'MAF')}` },
+                  { label: 'End elevation', value: `${powellProjection.endElevation.toFixed(1)} ft`, detail: `${powellProjection.endTier} tier` }
+                ].map(box => (
+                  <div key={box.label} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+                    <div className="text-xs font-medium text-gray-500 uppercase tracking-wider">{box.label}</div>
+                    <div className="text-2xl font-bold text-gray-900">{box.value}</div>
+                    <div className="text-xs text-gray-600">{box.detail}</div>
+                  </div>
+                ))}
+              </div>
+              
+              {(() => {
+                const bottom = POWELL_THRESHOLDS[POWELL_THRESHOLDS.length - 1].elevation;
+                const top = POWELL_THRESHOLDS[0].elevation;
+                const toPos = (elevation) => ((elevation - bottom) / (top - bottom)) * 100;
+                const low = Math.min(powellProjection.startElevation, powellProjection.endElevation);
+                const high = Math.max(powellProjection.startElevation, powellProjection.endElevation);
+                const falling = powellProjection.endElevation < powellProjection.startElevation;
+                return (
+                  <div className="mb-8">
+                    <div className="relative h-6 bg-gradient-to-r from-red-100 via-amber-50 to-blue-100 rounded">
+                      <div
+                        className={`absolute top-1 bottom-1 rounded ${falling ? 'bg-red-400' : 'bg-blue-400'}`}
+                        style={{ left: `${toPos(low)}%`, width: `${Math.max(toPos(high) - toPos(low), 0.5)}%` }}
+                      />
+                      {POWELL_THRESHOLDS.map(t => (
+                        <div key={t.elevation} className="absolute -top-1 -bottom-1 w-px bg-gray-600" style={{ left: `${toPos(t.elevation)}%` }} />
+                      ))}
+                      <div
+                        className="absolute -top-2 -bottom-2 w-1 bg-gray-900 rounded"
+                        style={{ left: `calc(${toPos(powellProjection.endElevation)}% - 2px)` }}
+                        title="End of water year"
+                      />
+                    </div>
+                    <div className="relative h-8 text-xs text-gray-600 mt-1">
+                      {POWELL_THRESHOLDS.map(t => (
+                        <span key={t.elevation} className="absolute -translate-x-1/2 text-center whitespace-nowrap" style={{ left: `${toPos(t.elevation)}%` }}>
+                          {t.elevation.toLocaleString()}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })()}
+              
+              <div className="space-y-2 text-sm">
+                {powellProjection.crossings.length === 0 ? (
+                  <p className="text-gray-700">
+                    No critical elevation is crossed; Lake Powell stays in the {powellProjection.endTier} tier band.
+                  </p>
+                ) : (
+                  powellProjection.crossings.map(c => (
+                    <div
+                      key={c.elevation}
+                      className={`p-3 rounded-lg flex gap-2 ${c.direction === 'below' ? 'bg-red-50 text-red-900 border border-red-200' : 'bg-green-50 text-green-900 border border-green-200'}`}
+                    >
+                      <AlertCircle className={`w-5 h-5 flex-shrink-0 ${c.direction === 'below' ? 'text-red-600' : 'text-green-600'}`} />
+                      <span>
+                        {c.direction === 'below' ? 'Falls below' : 'Rises above'} <strong>{c.elevation.toLocaleString()} ft</strong> ({c.label})
+                      </span>
+                    </div>
+                  ))
+                )}
+                {powellProjection.startTier !== powellProjection.endTier && (
+                  <p className="text-gray-700">
+                    Operating tier band changes from {powellProjection.startTier} to {powellProjection.endTier}.
+                  </p>
+                )}
+                {powellProjection.spill > 0 && (
+                  <p className="text-amber-800">
+                    Full pool is reached; {formatUnits(powellProjection.spill, 'MAF')} would have to be released in addition to the entered release.
+                  </p>
+                )}
+                {powellProjection.shortfall > 0 && (
+                  <p className="text-red-800">
+                    The release exceeds available water by {formatUnits(powellProjection.shortfall, 'MAF')}; storage is held at dead pool.
+                  </p>
+                )}
+              </div>
+              
+              <p className="text-xs text-gray-500 mt-4">
+                End storage = start + inflow − release − evaporation, from an approximate elevation–storage table (live storage above
+                the 3,370 ft dead pool). Tier bands follow the 2007 Interim Guidelines elevations; the year-specific equalization
+                line and mid-year tier adjustments are not modelled.
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">Enter a starting condition, inflow and release to project end-of-water-year conditions.</p>
+          )}
+        </div>
+
+        <div className="mt-8 bg-white rounded-xl shadow-lg p-8">
+          <div className="flex items-center justify-between mb-6 flex-wrap gap-3">
+            <h2 className="text-2xl font-bold text-gray-800">Scenario Library</h2>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={scenarioName}
+                onChange={(e) => setScenarioName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveCurrentScenario();
+                }}
+                placeholder="e.g. Apr 1 current conditions"
+                className="p-2 border border-gray-300 rounded-lg text-sm w-64"
+              />
+              <button
+                onClick={saveCurrentScenario}
+                className="flex items-center gap-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium text-white transition-colors"
+              >
+                <Save className="w-4 h-4" />
+                Save current
+              </button>
+            </div>
+          </div>
+          
+          {savedScenarios.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No saved scenarios yet. Name the current inputs and save them to build a library in this browser,
+              then tick scenarios to compare them side by side and on the scatter plot.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2 mb-6">
+                {savedScenarios.map((s, i) => {
+                  const marker = SCENARIO_MARKERS[i % SCENARIO_MARKERS.length];
+                  const compared = comparedScenarioIds.includes(s.id);
+                  return (
+                    <div
+                      key={s.id}
+                      className={`flex items-center gap-2 pl-3 pr-1 py-1 rounded-lg border text-sm ${compared ? 'bg-blue-50 border-blue-300' : 'bg-gray-50 border-gray-200'}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={compared}
+                        onChange={() => setComparedScenarioIds(compared
+                          ? comparedScenarioIds.filter(id => id !== s.id)
+                          : [...comparedScenarioIds, s.id])}
+                        className="accent-blue-600"
+                        title="Compare"
+                      />
+                      <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: marker.color }}></span>
+                      <span className="font-medium text-gray-800">{s.name}</span>
+                      <button
+                        onClick={() => loadScenario(s)}
+                        className="px-2 py-0.5 bg-white hover:bg-gray-100 rounded text-xs font-medium text-gray-700 border border-gray-200"
+                      >
+                        Load
+                      </button>
+                      <button
+                        onClick={() => {
+                          setSavedScenarios(savedScenarios.filter(x => x.id !== s.id));
+                          setComparedScenarioIds(comparedScenarioIds.filter(id => id !== s.id));
+                        }}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete scenario"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+              
+              {comparedScenarios.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-gray-700">
+                    <thead>
+                      <tr className="border-b-2 border-gray-200 text-left">
+                        <th className="py-2 pr-4 font-semibold">Scenario</th>
+                        <th className="py-2 pr-4 font-semibold text-right">SWE</th>
+                        <th className="py-2 pr-4 font-semibold text-right">Fall SM</th>
+                        <th className="py-2 pr-4 font-semibold text-right">Spring P</th>
+                        <th className="py-2 pr-4 font-semibold text-right">Saved forecast</th>
+                        <th className="py-2 pr-4 font-semibold text-right">Current model</th>
+                        <th className="py-2 pr-4 font-semibold text-right">SWE contrib.</th>
+                        <th className="py-2 pr-4 font-semibold text-right">Fall SM contrib.</th>
+                        <th className="py-2 font-semibold text-right">Spring P contrib.</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {comparedScenarios.map(s => {
+                        const contributions = factorContributions(s.inputs);
+                        const savedTarget = FORECAST_TARGETS[s.settings.target];
+                        const signed = (v) => `${v >= 0 ? '+' : ''}${v.toFixed(0)}%`;
+                        return (
+                          <tr key={s.id} className="border-b border-gray-100">
+                            <td className="py-2 pr-4 font-medium">
+                              <span className="inline-block w-3 h-3 rounded-sm mr-2 align-middle" style={{ backgroundColor: s.marker.color }}></span>
+                              {s.name}
+                            </td>
+                            <td className="py-2 pr-4 text-right font-mono">{Math.round(s.inputs.swe)}%</td>
+                            <td className="py-2 pr-4 text-right font-mono">{Math.round(s.inputs.fallSM)}%</td>
+                            <td className="py-2 pr-4 text-right font-mono">{Math.round(s.inputs.springPrecip)}%</td>
+                            <td className="py-2 pr-4 text-right font-mono" title={`${savedTarget.label}, ${MODEL_FORMS[s.settings.model].label}, baseline ${s.settings.baseline.start}-${s.settings.baseline.end}, ${s.settings.dataset}`}>
+                              {Math.round(s.forecast.pct)}% · {s.forecast.value.toFixed(savedTarget.decimals)} {s.forecast.unit}
+                              <div className="text-xs text-gray-500">{savedTarget.shortLabel}</div>
+                            </td>
+                            <td className="py-2 pr-4 text-right font-mono">
+                              {Math.round(s.currentPct)}%
+                              <div className="text-xs text-gray-500">{target.shortLabel}</div>
+                            </td>
+                            <td className="py-2 pr-4 text-right font-mono">{signed(contributions.swe)}</td>
+                            <td className="py-2 pr-4 text-right font-mono">{signed(contributions.fallSM)}</td>
+                            <td className="py-2 text-right font-mono">{signed(contributions.springPrecip)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-gray-500 mt-3">
+                    Saved forecasts are shown as they were saved (hover for the settings used). The current-model column
+                    re-evaluates each scenario with the active model and target, which is also how they are plotted.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="mt-8 bg-white rounded-xl shadow-lg p-8">
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Historical Analogs</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            The {analogK} water years closest to the current scenario, measured as a weighted distance across the three
+            predictors after scaling each by its historical standard deviation. The analog forecast weights each year by
+            inverse distance.
+          </p>
+          
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="space-y-4">
+              <div>
+                <div className="flex justify-between text-sm font-semibold text-gray-700 mb-1">
+                  <span>Number of analogs (k)</span>
+                  <span>{analogK}</span>
+                </div>
+                <input
+                  type="range"
+                  min={1}
+                  max={Math.min(15, years.length)}
+                  step={1}
+                  value={analogK}
+                  onChange={(e) => setAnalogK(parseInt(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                />
+              </div>
+              {[
+                { key: 'swe', label: 'SWE weight' },
+                { key: 'fallSM', label: 'Fall SM weight' },
+                { key: 'springPrecip', label: 'Spring precip weight' }
+              ].map(({ key, label }) => (
+                <div key={key}>
+                  <div className="flex justify-between text-sm font-semibold text-gray-700 mb-1">
+                    <span>{label}</span>
+                    <span>{analogWeights[key].toFixed(1)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={3}
+                    step={0.1}
+                    value={analogWeights[key]}
+                    onChange={(e) => setAnalogWeights({ ...analogWeights, [key]: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
                   />
-                </ScatterChart>
-              </ResponsiveContainer>
+                </div>
+              ))}
+              
+              {analogForecast && (
+                <div className="grid grid-cols-2 gap-3 pt-2">
+                  <div className="bg-blue-50 rounded-lg p-3 border border-blue-200">
+                    <div className="text-xs font-semibold text-gray-600 uppercase tracking-wider">Analog forecast</div>
+                    <div className="text-xl font-bold text-gray-800">{Math.round(analogForecast.mean)}%</div>
+                    <div className="text-xs text-gray-500">
+                      ± {analogForecast.sd.toFixed(1)}% · range {Math.round(analogForecast.min)}–{Math.round(analogForecast.max)}%
+                    </div>
+                  </div>
+                  <div className="bg-red-50 rounded-lg p-3 border border-red-200">
+                    <div className="text-xs font-semibold text-gray-600 uppercase tracking-wider">Regression forecast</div>
+                    <div className="text-xl font-bold text-gray-800">{Math.round(forecastedFlowPct)}%</div>
+                    <div className="text-xs text-gray-500">{modelSpec.label}</div>
+                  </div>
+                </div>
+              )}
+            </div>
+            
+            <div className="lg:col-span-2 overflow-x-auto">
+              <table className="w-full text-sm text-gray-700">
+                <thead>
+                  <tr className="border-b-2 border-gray-200 text-left">
+                    <th className="py-2 pr-4 font-semibold">Water year</th>
+                    <th className="py-2 pr-4 font-semibold text-right">SWE</th>
+                    <th className="py-2 pr-4 font-semibold text-right">Fall SM</th>
+                    <th className="py-2 pr-4 font-semibold text-right">Spring P</th>
+                    <th className="py-2 pr-4 font-semibold text-right">{target.shortLabel}</th>
+                    <th className="py-2 pr-4 font-semibold text-right">Distance</th>
+                    <th className="py-2 font-semibold text-right">Weight</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analogYears.map(y => (
+                    <tr key={y.year} className="border-b border-gray-100">
+                      <td className="py-2 pr-4 font-medium">WY {y.year}</td>
+                      <td className="py-2 pr-4 text-right font-mono">{Math.round(y.swe_pct)}%</td>
+                      <td className="py-2 pr-4 text-right font-mono">{Math.round(y.fallSM_pct)}%</td>
+                      <td className="py-2 pr-4 text-right font-mono">{Math.round(y.springPrecip_pct)}%</td>
+                      <td className="py-2 pr-4 text-right font-mono">
+                        {Math.round(y[target.pctKey])}% ({formatTarget(y[target.valueKey])})
+                      </td>
+                      <td className="py-2 pr-4 text-right font-mono">{y.distance.toFixed(2)}</td>
+                      <td className="py-2 text-right font-mono">{(y.weight * 100).toFixed(0)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
           </div>
         </div>
 
+        <div className="mt-8 bg-white rounded-xl shadow-lg p-8">
+          <div className="flex items-center justify-between mb-6 flex-wrap gap-3">
+            <h2 className="text-2xl font-bold text-gray-800">Model Diagnostics</h2>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={useIntercept}
+                onChange={(e) => setUseIntercept(e.target.checked)}
+                className="accent-blue-600"
+              />
+              Include intercept (β₀)
+            </label>
+          </div>
+          
+          {regressionFit ? (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+                  <div className="text-xs font-semibold text-gray-600 uppercase tracking-wider">R²</div>
+                  <div className="text-2xl font-bold text-gray-800">{regressionFit.r2.toFixed(3)}</div>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+                  <div className="text-xs font-semibold text-gray-600 uppercase tracking-wider">Adjusted R²</div>
+                  <div className="text-2xl font-bold text-gray-800">{regressionFit.adjR2.toFixed(3)}</div>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+                  <div className="text-xs font-semibold text-gray-600 uppercase tracking-wider">Residual Std. Error</div>
+                  <div className="text-2xl font-bold text-gray-800">{regressionFit.rse.toFixed(2)}%</div>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+                  <div className="text-xs font-semibold text-gray-600 uppercase tracking-wider">Observations / df</div>
+                  <div className="text-2xl font-bold text-gray-800">{regressionFit.n} / {regressionFit.df}</div>
+                </div>
+              </div>
+              
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-gray-700">
+                  <thead>
+                    <tr className="border-b-2 border-gray-200 text-left">
+                      <th className="py-2 pr-4 font-semibold">Term</th>
+                      <th className="py-2 pr-4 font-semibold text-right">Estimate</th>
+                      <th className="py-2 pr-4 font-semibold text-right">Std. Error</th>
+                      <th className="py-2 pr-4 font-semibold text-right">t value</th>
+                      <th className="py-2 pr-4 font-semibold text-right">p value</th>
+                      <th className="py-2 font-semibold text-right">VIF</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[
+                      ...(regressionFit.hasIntercept ? [{ term: 'β₀ (Intercept)', vif: null }] : []),
+                      ...modelSpec.terms.map((name, j) => ({ term: `β${subscriptDigits(j + 1)} (${name})`, vif: regressionFit.vif[j] }))
+                    ].map((row, i) => {
+                      const estimate = regressionFit.hasIntercept
+                        ? (i === 0 ? regressionFit.intercept : regressionFit.beta[i - 1])
+                        : regressionFit.beta[i];
+                      return (
+                        <tr key={row.term} className="border-b border-gray-100">
+                          <td className="py-2 pr-4 font-medium">{row.term}</td>
+                          <td className="py-2 pr-4 text-right font-mono">{estimate.toFixed(4)}</td>
+                          <td className="py-2 pr-4 text-right font-mono">{regressionFit.se[i].toFixed(4)}</td>
+                          <td className="py-2 pr-4 text-right font-mono">{regressionFit.tStats[i].toFixed(2)}</td>
+                          <td className="py-2 pr-4 text-right font-mono">{formatPValue(regressionFit.pValues[i])}</td>
+                          <td className={`py-2 text-right font-mono ${row.vif > 5 ? 'text-red-600 font-semibold' : ''}`}>
+                            {row.vif === null ? '—' : row.vif.toFixed(2)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                Coefficients of the {modelSpec.label.toLowerCase()} model are estimated jointly by ordinary least squares
+                {modelForm === 'log' ? ' on log ratios to the baseline average; the residual standard error is in log units.' : ' on anomalies (% of average − 100); the residual standard error is in percentage points of the ' + target.label.toLowerCase() + ' baseline average.'}
+                {' '}VIF values above 5 indicate predictors that are strongly collinear with the others.
+              </p>
+            </>
+          ) : (
+            <p className="text-gray-600">
+              {modelSpec.local
+                ? 'The locally weighted model refits around each scenario, so it has no global coefficients. Compare its skill with the other forms below.'
+                : 'The regression could not be fitted: the predictor matrix is singular or there are too few water years.'}
+            </p>
+          )}
+          
+          {influence.length > 0 && (
+            <div className="mt-8">
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Influential Years</h3>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={influence} margin={{ top: 10, right: 20, bottom: 10, left: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="year" tick={{ fontSize: 11 }} />
+                    <YAxis tick={{ fontSize: 12 }} label={{ value: "Cook's distance", angle: -90, position: 'insideLeft', style: { fontSize: 12 } }} />
+                    <Tooltip formatter={(value) => Number(value).toFixed(3)} />
+                    <ReferenceLine y={influence[0].cutoffs.cooksDistance} stroke="#d97706" strokeDasharray="4 4" />
+                    <Bar dataKey="cooksDistance" name="Cook's D" onClick={(d) => toggleYearExcluded(d.year)} cursor="pointer">
+                      {influence.map(d => <Cell key={d.year} fill={d.flags.length > 0 ? '#d97706' : '#93c5fd'} />)}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="overflow-x-auto mt-4">
+                <table className="w-full text-sm text-gray-700">
+                  <thead>
+                    <tr className="border-b-2 border-gray-200 text-left">
+                      <th className="py-2 pr-4 font-semibold">Water year</th>
+                      <th className="py-2 pr-4 font-semibold text-right">Cook's D</th>
+                      <th className="py-2 pr-4 font-semibold text-right">Leverage</th>
+                      <th className="py-2 pr-4 font-semibold text-right">Std. residual</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...influence.filter(d => d.flags.length > 0).sort((a, b) => b.cooksDistance - a.cooksDistance),
+                      ...years.filter(y => !y.included).map(y => ({ year: y.year, excluded: true }))
+                    ].map(row => (
+                      <tr key={row.year} className="border-b border-gray-100">
+                        <td className="py-2 pr-4 font-medium">WY {row.year}</td>
+                        {row.excluded ? (
+                          <td colSpan={3} className="py-2 pr-4 text-right text-xs text-gray-500">Excluded from training</td>
+                        ) : (
+                          <>
+                            <td className={`py-2 pr-4 text-right font-mono ${row.flags.includes('cooks') ? 'text-amber-700 font-semibold' : ''}`}>
+                              {row.cooksDistance.toFixed(3)}
+                            </td>
+                            <td className={`py-2 pr-4 text-right font-mono ${row.flags.includes('leverage') ? 'text-amber-700 font-semibold' : ''}`}>
+                              {row.leverage.toFixed(3)}
+                            </td>
+                            <td className={`py-2 pr-4 text-right font-mono ${row.flags.includes('residual') ? 'text-amber-700 font-semibold' : ''}`}>
+                              {row.standardizedResidual.toFixed(2)}
+                            </td>
+                          </>
+                        )}
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => toggleYearExcluded(row.year)}
+                            className="px-2 py-1 bg-gray-100 hover:bg-gray-200 rounded text-xs font-medium text-gray-700"
+                          >
+                            {row.excluded ? 'Include' : 'Exclude'}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                Values are flagged above Cook's distance 4/n = {influence[0].cutoffs.cooksDistance.toFixed(3)}, leverage
+                2p/n = {influence[0].cutoffs.leverage.toFixed(3)} or |standardized residual| {influence[0].cutoffs.standardizedResidual},
+                with n = {regressionFit.n} training years and p = {regressionFit.n - regressionFit.df} coefficients. Excluding a year
+                refits the model, the forecast and the skill statistics without it; baseline averages are unchanged.
+              </p>
+            </div>
+          )}
+          
+          {modelComparison.length > 0 && (
+            <div className="mt-8">
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Model Form Comparison</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-gray-700">
+                  <thead>
+                    <tr className="border-b-2 border-gray-200 text-left">
+                      <th className="py-2 pr-4 font-semibold">Model form</th>
+                      <th className="py-2 pr-4 font-semibold text-right">Fit R²</th>
+                      <th className="py-2 pr-4 font-semibold text-right">Fit RMSE</th>
+                      <th className="py-2 pr-4 font-semibold text-right">LOO RMSE</th>
+                      <th className="py-2 pr-4 font-semibold text-right">LOO NSE</th>
+                      <th className="py-2 pr-4 font-semibold text-right">LOO r</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {modelComparison.map(row => {
+                      const bestCv = Math.min(...modelComparison.map(r => r.cv.rmse));
+                      return (
+                        <tr key={row.form} className={`border-b border-gray-100 ${row.form === modelForm ? 'bg-blue-50' : ''}`}>
+                          <td className="py-2 pr-4 font-medium">{MODEL_FORMS[row.form].label}</td>
+                          <td className="py-2 pr-4 text-right font-mono">{row.r2.toFixed(3)}</td>
+                          <td className="py-2 pr-4 text-right font-mono">{row.rmse.toFixed(1)}%</td>
+                          <td className={`py-2 pr-4 text-right font-mono ${row.cv.rmse === bestCv ? 'text-green-700 font-semibold' : ''}`}>
+                            {row.cv.rmse.toFixed(1)}%
+                          </td>
+                          <td className="py-2 pr-4 text-right font-mono">{row.cv.nse.toFixed(3)}</td>
+                          <td className="py-2 pr-4 text-right font-mono">{row.cv.r.toFixed(3)}</td>
+                          <td className="py-2 text-right">
+                            {row.form === modelForm ? (
+                              <span className="text-xs font-semibold text-blue-700">In use</span>
+                            ) : (
+                              <button
+                                onClick={() => setModelForm(row.form)}
+                                className="px-2 py-1 bg-gray-100 hover:bg-gray-200 rounded text-xs font-medium text-gray-700"
+                              >
+                                Use
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                All statistics are in % of the {baselineLabel} average so the forms are directly comparable. Fit statistics use
+                the same years the model was trained on; leave-one-out (LOO) statistics predict each year from a model fitted
+                without it and are the better guide to forecast skill. The lowest LOO RMSE is highlighted.
+              </p>
+            </div>
+          )}
+          
+          {seasonSkill.length > 0 && (
+            <div className="mt-8">
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Skill Through the Season</h3>
+              {seasonSkill.length > 1 ? (
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart
+                      data={seasonSkill.map(row => ({ ...row, label: ISSUE_DATES[row.issueDate].label }))}
+                      margin={{ top: 10, right: 20, bottom: 10, left: 10 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                      <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                      <YAxis yAxisId="nse" domain={[(min) => Math.min(0, Math.floor(min * 10) / 10), 1]} tick={{ fontSize: 12 }}
+                        label={{ value: 'LOO NSE', angle: -90, position: 'insideLeft', style: { fontSize: 12 } }} />
+                      <YAxis yAxisId="rmse" orientation="right" tick={{ fontSize: 12 }}
+                        label={{ value: 'LOO RMSE (% of avg)', angle: 90, position: 'insideRight', style: { fontSize: 12 } }} />
+                      <Tooltip formatter={(value, name) => (name === 'LOO RMSE' ? `${Number(value).toFixed(1)}%` : Number(value).toFixed(3))} />
+                      <Legend />
+                      <ReferenceLine yAxisId="nse" x={issueSpec.label} stroke="#9ca3af" strokeDasharray="4 4" />
+                      <Line yAxisId="nse" type="monotone" dataKey="nse" name="LOO NSE" stroke="#2563eb" strokeWidth={2} dot={{ r: 4 }} />
+                      <Line yAxisId="rmse" type="monotone" dataKey="rmse" name="LOO RMSE" stroke="#ef4444" strokeWidth={2} strokeDasharray="5 3" dot={{ r: 4 }} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <p className="text-gray-600 text-sm">
+                  This dataset only supports the {issueSpec.label} issue date (LOO NSE {seasonSkill[0].nse.toFixed(3)},
+                  RMSE {seasonSkill[0].rmse.toFixed(1)}%). Add first-of-month SWE and precipitation-to-date columns to compare
+                  forecast skill from January through May.
+                </p>
+              )}
+              <p className="text-xs text-gray-500 mt-3">
+                The {modelSpec.label.toLowerCase()} model is refitted with the predictors known at each issue date and scored
+                by leave-one-out hindcast in % of the {baselineLabel} average. The dashed line marks the issue date in use.
+                April 1 uses the April-July spring precipitation scenario, so its skill assumes that precipitation is known.
+              </p>
+            </div>
+          )}
+          
+          {reliability.length > 0 && (
+            <div className="mt-8">
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Probability Reliability</h3>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart margin={{ top: 10, right: 20, bottom: 30, left: 10 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                      <XAxis dataKey="meanForecast" type="number" domain={[0, 1]} ticks={[0, 0.2, 0.4, 0.6, 0.8, 1]} tick={{ fontSize: 12 }}
+                        label={{ value: 'Forecast probability', position: 'insideBottom', offset: -15, style: { fontSize: 12 } }} />
+                      <YAxis type="number" domain={[0, 1]} ticks={[0, 0.2, 0.4, 0.6, 0.8, 1]} tick={{ fontSize: 12 }}
+                        label={{ value: 'Observed frequency', angle: -90, position: 'insideLeft', style: { fontSize: 12 } }} />
+                      <Tooltip
+                        formatter={(value) => Number(value).toFixed(2)}
+                        labelFormatter={(value) => `Forecast ${Number(value).toFixed(2)}`}
+                      />
+                      <Legend verticalAlign="top" />
+                      <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#9ca3af" strokeDasharray="4 4" />
+                      {reliability.map(curve => (
+                        <Line
+                          key={curve.key}
+                          data={curve.bins.filter(b => b.count > 0)}
+                          dataKey="observedFrequency"
+                          name={curve.label}
+                          stroke={{ below: '#d97706', near: '#6b7280', above: '#0284c7', thresholds: '#dc2626' }[curve.key]}
+                          strokeWidth={2}
+                          dot={{ r: 4 }}
+                          isAnimationActive={false}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <div>
+                  <table className="w-full text-sm text-gray-700">
+                    <thead>
+                      <tr className="border-b-2 border-gray-200 text-left">
+                        <th className="py-2 pr-4 font-semibold">Event</th>
+                        <th className="py-2 pr-4 font-semibold text-right">Frequency</th>
+                        <th className="py-2 pr-4 font-semibold text-right">Brier score</th>
+                        <th className="py-2 font-semibold text-right">Brier skill</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {reliability.map(curve => (
+                        <tr key={curve.key} className="border-b border-gray-100">
+                          <td className="py-2 pr-4 font-medium">{curve.label}</td>
+                          <td className="py-2 pr-4 text-right font-mono">{(curve.baseRate * 100).toFixed(0)}%</td>
+                          <td className="py-2 pr-4 text-right font-mono">{curve.brier.toFixed(3)}</td>
+                          <td className={`py-2 text-right font-mono ${curve.brierSkill > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                            {curve.brierSkill.toFixed(2)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-gray-500 mt-3">
+                    Each training year's probabilities come from a {PROBABILITY_METHODS[probabilityMethod].label.toLowerCase()} fitted
+                    without it, grouped into {RELIABILITY_BINS} equal forecast-probability bins. Points on the dashed diagonal are
+                    reliable: events forecast at 40% happened 40% of the time. Brier skill above zero beats always forecasting the
+                    historical frequency.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-8 bg-white rounded-xl shadow-lg p-8">
+          <div className="flex items-center justify-between mb-6 flex-wrap gap-3">
+            <div className="flex items-center gap-2">
+              <History className="w-6 h-6 text-blue-600" />
+              <h2 className="text-2xl font-bold text-gray-800">Leave-One-Out Hindcast Skill</h2>
+            </div>
+            <button
+              onClick={() => setHindcastMode(!hindcastMode)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                hindcastMode ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {hindcastMode ? 'Hide hindcast' : 'Run hindcast'}
+            </button>
+          </div>
+          
+          {!hindcastMode && (
+            <p className="text-gray-600 text-sm">
+              The hindcast refits the regression with each water year withheld in turn and predicts that year, so the
+              skill scores reflect performance on years the model has not seen.
+            </p>
+          )}
+          
+          {hindcastMode && hindcast && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+                  <div className="text-xs font-semibold text-gray-600 uppercase tracking-wider">RMSE</div>
+                  <div className="text-2xl font-bold text-gray-800">{hindcast.scores.rmse.toFixed(1)}%</div>
+                  <div className="text-xs text-gray-500">{formatTarget(hindcast.scoresValue.rmse)}</div>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+                  <div className="text-xs font-semibold text-gray-600 uppercase tracking-wider">Bias</div>
+                  <div className="text-2xl font-bold text-gray-800">
+                    {hindcast.scores.bias >= 0 ? '+' : ''}{hindcast.scores.bias.toFixed(2)}%
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {hindcast.scoresValue.bias >= 0 ? '+' : ''}{formatTarget(hindcast.scoresValue.bias)}
+                  </div>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+                  <div className="text-xs font-semibold text-gray-600 uppercase tracking-wider">Nash–Sutcliffe</div>
+                  <div className="text-2xl font-bold text-gray-800">{hindcast.scores.nse.toFixed(3)}</div>
+                  <div className="text-xs text-gray-500">
+                    in-sample R² {regressionFit ? regressionFit.r2.toFixed(3) : '—'}
+                  </div>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+                  <div className="text-xs font-semibold text-gray-600 uppercase tracking-wider">Correlation (r)</div>
+                  <div className="text-2xl font-bold text-gray-800">{hindcast.scores.r.toFixed(3)}</div>
+                  <div className="text-xs text-gray-500">{hindcast.results.length} water years</div>
+                </div>
+              </div>
+              
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-2">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Hindcast vs historical {target.label.toLowerCase()}</h3>
+                  <ResponsiveContainer width="100%" height={320}>
+                    <LineChart data={hindcast.results} margin={{ top: 10, right: 20, bottom: 30, left: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="year" label={{ value: 'Water Year', position: 'insideBottom', offset: -15 }} />
+                      <YAxis label={{ value: '% of average', angle: -90, position: 'insideLeft' }} />
+                      <Tooltip formatter={(value) => `${Number(value).toFixed(1)}%`} />
+                      <Legend verticalAlign="top" />
+                      <ReferenceLine y={100} stroke="#666" />
+                      <Line type="monotone" dataKey="observed" name="Historical" stroke="#2563eb" strokeWidth={2} dot={{ r: 3 }} />
+                      <Line type="monotone" dataKey="hindcast" name="LOO hindcast" stroke="#ef4444" strokeWidth={2} strokeDasharray="5 3" dot={{ r: 3 }} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Hindcast vs historical (1:1)</h3>
+                  {(() => {
+                    const values = hindcast.results.flatMap(r => [r.observed, r.hindcast]);
+                    const lo = Math.floor(Math.min(...values) / 25) * 25;
+                    const hi = Math.ceil(Math.max(...values) / 25) * 25;
+                    return (
+                      <ResponsiveContainer width="100%" height={320}>
+                        <ScatterChart margin={{ top: 10, right: 20, bottom: 30, left: 20 }}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="observed" type="number" domain={[lo, hi]} name="Historical"
+                            label={{ value: 'Historical (%)', position: 'insideBottom', offset: -15 }} />
+                          <YAxis dataKey="hindcast" type="number" domain={[lo, hi]} name="Hindcast"
+                            label={{ value: 'Hindcast (%)', angle: -90, position: 'insideLeft' }} />
+                          <Tooltip formatter={(value) => `${Number(value).toFixed(1)}%`} labelFormatter={() => ''} />
+                          <ReferenceLine segment={[{ x: lo, y: lo }, { x: hi, y: hi }]} stroke="#666" strokeDasharray="4 4" />
+                          <Scatter data={hindcast.results} fill="#2563eb" fillOpacity={0.7} />
+                        </ScatterChart>
+                      </ResponsiveContainer>
+                    );
+                  })()}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
         <div className="mt-8 bg-white rounded-xl shadow-lg p-8">
           <h2 className="text-2xl font-bold text-gray-800 mb-6">Methodology & Information</h2>
           
@@ -588,24 +3904,42 @@ const LakePowellInflowTool = () => {
             <div>
               <h3 className="text-lg font-semibold text-gray-800 mb-3">Forecasting Model</h3>
               <p className="mb-3">
-                This tool uses a multiple linear regression model to forecast annual streamflow in the Upper Colorado River Basin 
-                based on three key hydrological indicators. The model is trained on 40 years (1985-2024) of VIC (Variable Infiltration Capacity) 
-                model simulations, with all percentages calculated relative to the 1991-2020 baseline period.
+                This tool uses a multiple linear regression model to forecast annual streamflow, April-July streamflow, or
+                unregulated Lake Powell inflow (MAF) in the Upper Colorado River Basin based on three key hydrological indicators.
+                The model is refitted whenever the forecast target or dataset is changed. It is trained on {years.length} years
+                ({yearSpan}) of {dataset.source === 'bundled' ? 'VIC (Variable Infiltration Capacity) model simulations' : `data from ${dataset.name}`},
+                with all percentages calculated relative to the {baselineLabel} baseline period ({historicalData.baseline.years} water years).
               </p>
               <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
-                <p className="font-semibold mb-2">Regression Equation:</p>
+                <p className="font-semibold mb-2">Regression Equation ({modelSpec.label}):</p>
                 <p className="font-mono text-sm">
-                  Streamflow% = 100 + β₁×(SWE% - 100) + β₂×(FallSM% - 100) + β₃×(SpringPrecip% - 100)
+                  {modelSpec.equation(useIntercept)}
                 </p>
                 <p className="text-sm mt-3">
-                  Where β₁, β₂, and β₃ are regression coefficients derived from historical data using ordinary least squares estimation. 
-                  The coefficients represent the sensitivity of streamflow to each predictor variable.
+                  Where β₁, β₂, and β₃ are regression coefficients estimated jointly from historical data by ordinary least squares
+                  {useIntercept ? ', and β₀ is an intercept that absorbs any offset of the baseline mean from the full-record mean' : ''}.
+                  Because the predictors are fitted together, each coefficient represents the sensitivity of streamflow to that
+                  predictor with the other two held fixed.
+                </p>
+                <p className="text-sm mt-3">
+                  Alternative forms can be selected under Input Parameters. The interaction form lets fall soil moisture change
+                  the SWE sensitivity (β₄), the log-space form treats the effects as multiplicative (β values are elasticities),
+                  and the locally weighted form lets the response bend across the range of historical conditions.
+                </p>
+                <p className="text-sm mt-3">
+                  The 50%, 80% and 95% prediction intervals are the forecast ± a Student's t quantile times the standard error
+                  of prediction, which combines the residual standard error with the uncertainty of the fitted coefficients, so
+                  they widen for scenarios far from typical historical conditions. The bounds are computed on the model's response
+                  scale and transformed back to % of average; streamflow cannot be negative, so forecasts and lower bounds are
+                  floored at 0% (the log-space form stays positive by construction). Scenarios outside the training data are flagged.
                 </p>
                 <div className="mt-3 text-sm">
                   <p className="font-semibold">Current Model Coefficients:</p>
-                  <p>β₁ (SWE) = {regressionBeta[0].toFixed(4)}</p>
-                  <p>β₂ (Fall SM) = {regressionBeta[1].toFixed(4)}</p>
-                  <p>β₃ (Spring Precip) = {regressionBeta[2].toFixed(4)}</p>
+                  {useIntercept && regressionFit && <p>β₀ (Intercept) = {regressionFit.intercept.toFixed(4)}</p>}
+                  {regressionBeta.map((b, j) => (
+                    <p key={j}>β{subscriptDigits(j + 1)} ({modelSpec.terms[j]}) = {b.toFixed(4)}</p>
+                  ))}
+                  {regressionBeta.length === 0 && <p>No global coefficients for the {modelSpec.label.toLowerCase()} model.</p>}
                 </div>
               </div>
             </div>
@@ -622,19 +3956,110 @@ const LakePowellInflowTool = () => {
               </ul>
             </div>
 
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Issue Dates</h3>
+              <p>
+                Forecasts can be issued on the first of each month from January through May. The model is refitted with the
+                predictors known on that date: first-of-month SWE, fall soil moisture, and precipitation observed since October 1
+                (columns such as <code>jan1_swe_mm</code> and <code>precip_oct_dec_mm</code>). April 1 keeps the April-July spring
+                precipitation as a scenario input, which is also what ESP mode resamples. Issue dates whose columns are missing
+                from the dataset are unavailable, and the Model Skill section compares leave-one-out skill across the dates.
+              </p>
+            </div>
+
             <div>
               <h3 className="text-lg font-semibold text-gray-800 mb-3">Scatter Plot Interpretation</h3>
               <p className="mb-2">
-                The SWE vs. Streamflow plot displays historical relationships with additional context:
+                The scatter plot displays historical relationships with additional context. By default it shows SWE against the
+                forecast target; any predictor or target can be mapped to the axes, color and size, in % of average or in absolute units:
               </p>
               <ul className="space-y-1 list-disc list-inside">
-                <li><strong>Symbol Color:</strong> Spectral colormap representing spring precipitation (red = dry, yellow = normal, blue = wet)</li>
-                <li><strong>Symbol Size:</strong> Proportional to fall soil moisture (larger = wetter antecedent conditions)</li>
-                <li><strong>Red Star:</strong> Current forecast scenario based on your input parameters</li>
-                <li><strong>Reference Lines:</strong> Solid lines at 100% indicate 1991-2020 baseline average conditions</li>
+                <li><strong>Symbol Color:</strong> Spectral colormap over the color variable's historical range, spring precipitation by
+                    default (red = low, yellow = normal, blue = high)</li>
+                <li><strong>Symbol Size:</strong> Proportional to the size variable, fall soil moisture by default (larger = higher)</li>
+                <li><strong>Dark Outline:</strong> Analog years nearest to the current scenario (see Historical Analogs)</li>
+                <li><strong>Red Star:</strong> Current forecast scenario based on your input parameters; the thin and thick
+                    error bars span the 95% and 80% prediction intervals</li>
+                <li><strong>Reference Lines:</strong> Solid lines at 100% (or the average in absolute units) indicate {baselineLabel} baseline average conditions</li>
               </ul>
             </div>
 
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">ESP Mode</h3>
+              <p>
+                On April 1 the snowpack and antecedent soil moisture are known but spring precipitation is not. In the style of
+                Ensemble Streamflow Prediction, ESP mode holds the current SWE and fall soil moisture fixed and runs the selected
+                model once for every historical year's spring precipitation. The traces are ranked with Weibull plotting positions,
+                i/(n+1), and the 10/30/50/70/90% exceedance values are interpolated from that ranking; the 50% value replaces the
+                single-scenario forecast in the forecast panel. The ensemble spread reflects spring weather only, not model error.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Sub-basins</h3>
+              <p>
+                Datasets with a <code>basin</code> column are fitted one basin at a time, since sub-basins respond differently to
+                snowpack and soil moisture. The sub-basin total forecasts every basin with the same model form and target and adds
+                the forecasts up as volumes: runoff depth (mm) × drainage area (km²) × 1,000 m³, divided by 1,233.48 m³ per acre-foot.
+                Its percent of average is relative to the sum of the basins' own baseline volumes.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Input Uncertainty</h3>
+              <p>
+                The slider values are estimates with their own observational error. With input uncertainty on, each input is given a
+                standard deviation in percentage points of average and a normal, uniform or lognormal distribution, and 2,000 draws
+                of the inputs are run through the selected model. Each draw can also add normal model error with the prediction's
+                standard error, so the resulting histogram, percentiles and probabilities below the chosen thresholds combine input
+                and model uncertainty. Draws use a fixed seed, so the same settings always give the same distribution.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Year Exclusion and Influence</h3>
+              <p>
+                Any water year can be left out of model training from the year list or by clicking its scatter point. The
+                regression, forecast, intervals, hindcast and skill statistics refit without it, while the baseline averages,
+                analog pool and ESP traces still use every year. For parametric forms each training year's leverage (its
+                diagonal of the hat matrix), internally standardized residual and Cook's distance are computed on the
+                model's response scale; years above Cook's 4/n, leverage 2p/n or |residual| 2 are outlined on the scatter plot.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Calibration to Observed Inflow</h3>
+              <p>
+                VIC-simulated streamflow is a runoff depth over the model domain, not the water that reaches Lake Powell. For the
+                streamflow targets the tool maps simulated flow onto the observed unregulated inflow (inflow_MAF) of the training
+                years, either by linear regression or by empirical quantile mapping, which gives a simulated flow the observed inflow
+                of the same rank. The mapped forecast interval is widened by the calibration error (the regression's prediction
+                standard error, or the leave-one-out RMSE for quantile mapping), the two errors treated as independent. Inflow
+                cannot be negative, so the mapped value and the lower bounds are floored at 0 MAF.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Drought-Risk Probabilities</h3>
+              <p>
+                Tercile categories split the baseline water years into equal thirds of the target, so each has a 33% climatological
+                chance. With the residual method the probabilities come from the fitted model's Student-t predictive distribution
+                around the forecast; with the logistic method a ridge-penalised logistic regression on the three predictor anomalies
+                is fitted for each category boundary and threshold. The reliability diagram checks both against history with
+                leave-one-out probabilities, and the Brier skill score compares them with always forecasting the historical frequency.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Units</h3>
+              <p>
+                The model works in each quantity's native unit (mm of depth, MAF of inflow) and the unit selector only changes how
+                values are shown and exported. Depths convert to volumes as depth × contributing drainage area, so 1 mm over 1 km²
+                is 1,000 m³ and 1 acre-foot is 1,233.48 m³. The drainage area is the one entered, otherwise the selected basin's
+                area, otherwise the 289,560 km² (111,800 mi²) above Lees Ferry. Percentages of average are unit-free.
+              </p>
+            </div>
+
             <div>
               <h3 className="text-lg font-semibold text-gray-800 mb-3">Reference</h3>
               <p className="text-sm bg-gray-50 p-3 rounded border border-gray-200">
@@ -663,8 +4088,7 @@ const LakePowellInflowTool = () => {
                   <strong>Copyright © 2026 Arizona State University.</strong> This tool is provided for research and educational purposes only.
                 </p>
                 <p>
-                  <strong>INTERNAL BETA VERSION:</strong> This is a development version intended for testing and validation. 
-                  Results should not be used for operational water management decisions without proper verification.
+                  <strong>INTERNAL BETA VERSION:</strong> {BETA_DISCLAIMER}
                 </p>
                 <p>
                   <strong>Waiver of Responsibility:</strong> This forecasting tool is provided "as is" without warranty of any kind, 
@@ -676,7 +4100,7 @@ const LakePowellInflowTool = () => {
                 </p>
                 <p>
                   <strong>Data Source:</strong> VIC model simulations (1985-2024) of the Upper Colorado River Basin. 
-                  All percentages are calculated relative to 1991-2020 baseline period averages.
+                  All percentages are calculated relative to {baselineLabel} baseline period averages.
                 </p>
               </div>
             </div>
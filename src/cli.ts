@@ -0,0 +1,256 @@
+// Batch forecasts from the command line. Reads scenarios (CSV or JSON, inputs in % of the baseline
+// average) and writes one forecast per scenario with prediction intervals and analog statistics.
+//
+//   npm run build:cli
+//   npm run forecast -- --scenarios scenarios.csv --target inflow --out forecasts.csv
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import Papa from 'papaparse';
+import {
+  FORECAST_TARGETS, MODEL_FORMS, ISSUE_DATES, INTERVAL_LEVELS, CALIBRATION_METHODS, PROBABILITY_METHODS,
+  loadDataset, fitForecastModel, forecastScenario, findScenarioAnalogs, calibrateInflow, correctForecastInflow, categoryForecast,
+  parseCsv, DatasetValidationError
+} from './engine';
+import type { Scenario, TargetKey, ModelFormKey, IssueDateKey, CalibrationMethod, ProbabilityMethod, RawRow } from './engine';
+
+const USAGE = `Usage: forecast --scenarios <file.csv|file.json> [options]
+
+Options:
+  --data <file.csv>       Water-year dataset (default: public/water_year_metrics.csv)
+  --target <key>          ${Object.keys(FORECAST_TARGETS).join(' | ')} (default: annual)
+  --model <key>           ${Object.keys(MODEL_FORMS).join(' | ')} (default: linear)
+  --no-intercept          Fit without an intercept
+  --basin <name>          Basin to forecast when the dataset has a basin column
+  --issue-date <key>      ${Object.keys(ISSUE_DATES).join(' | ')} (default: apr1)
+  --baseline <start-end>  Normal period for % of average (default: 1991-2020)
+  --exclude <years>       Comma-separated water years to leave out of model training
+  --analogs <k>           Number of analog years (default: 5)
+  --calibration <method>  ${Object.keys(CALIBRATION_METHODS).join(' | ')}: add bias-corrected Powell inflow to
+                          annual or aprJul forecasts (needs an inflow_MAF column)
+  --probabilities <method>
+                          ${Object.keys(PROBABILITY_METHODS).join(' | ')}: add tercile probabilities
+  --thresholds <values>   Comma-separated values in the target's units; with --probabilities, adds P(target < value)
+  --out <file>            Write to a file; .json writes JSON, anything else CSV (default: CSV to stdout)
+  --help                  Show this message
+
+Scenario files need swe, fallSM and springPrecip columns (or swe_pct, fallSM_pct, springPrecip_pct),
+and may carry a name column. JSON files hold an array of such objects. At issue dates other than apr1
+the swe and springPrecip fields are that date's SWE and precipitation to date.`;
+
+// Accepted spellings for each scenario field; the first present one wins
+const SCENARIO_FIELDS = {
+  swe: ['swe', 'swe_pct', 'apr1_swe_pct'],
+  fallSM: ['fallSM', 'fallSM_pct', 'fall_sm_pct'],
+  springPrecip: ['springPrecip', 'springPrecip_pct', 'spring_precip_pct']
+};
+
+const fail = (message: string): never => {
+  process.stderr.write(`${message}\n`);
+  process.exit(1);
+};
+
+const readScenarios = (file: string): { name: string; scenario: Scenario }[] => {
+  const text = fs.readFileSync(file, 'utf8');
+  let rows: RawRow[];
+  if (path.extname(file).toLowerCase() === '.json') {
+    const parsed = JSON.parse(text);
+    rows = Array.isArray(parsed) ? parsed : parsed.scenarios;
+    if (!Array.isArray(rows)) fail(`${file}: expected an array of scenarios or { "scenarios": [...] }`);
+  } else {
+    rows = parseCsv(text).rows;
+  }
+
+  const problems = [];
+  const scenarios = rows.map((row, i) => {
+    const field = (field: keyof Scenario): number => {
+      const key = SCENARIO_FIELDS[field].find(name => row[name] !== undefined && row[name] !== null && row[name] !== '');
+      const value = key === undefined ? NaN : Number(row[key]);
+      if (!Number.isFinite(value)) problems.push(`Scenario ${i + 1}: missing or non-numeric ${field}`);
+      return value;
+    };
+    const scenario: Scenario = { swe: field('swe'), fallSM: field('fallSM'), springPrecip: field('springPrecip') };
+    return { name: String(row.name ?? row.id ?? `scenario_${i + 1}`), scenario };
+  });
+  if (problems.length > 0) fail(problems.join('\n'));
+  return scenarios;
+};
+
+// Unknown flags and missing values are usage errors like any other bad input
+const parseCliArgs = () => {
+  try {
+    return parseArgs({
+      options: {
+        scenarios: { type: 'string' },
+        data: { type: 'string', default: 'public/water_year_metrics.csv' },
+        target: { type: 'string', default: 'annual' },
+        model: { type: 'string', default: 'linear' },
+        'no-intercept': { type: 'boolean', default: false },
+        basin: { type: 'string' },
+        'issue-date': { type: 'string', default: 'apr1' },
+        baseline: { type: 'string', default: '1991-2020' },
+        exclude: { type: 'string', default: '' },
+        analogs: { type: 'string', default: '5' },
+        calibration: { type: 'string' },
+        probabilities: { type: 'string' },
+        thresholds: { type: 'string', default: '' },
+        out: { type: 'string' },
+        help: { type: 'boolean', default: false }
+      }
+    }).values;
+  } catch (err) {
+    return fail(`${err.message}\n\n${USAGE}`);
+  }
+};
+
+const main = () => {
+  const args = parseCliArgs();
+
+  if (args.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  if (!args.scenarios) fail(USAGE);
+  if (!FORECAST_TARGETS[args.target]) fail(`Unknown target "${args.target}"`);
+  if (!MODEL_FORMS[args.model]) fail(`Unknown model "${args.model}"`);
+  if (!ISSUE_DATES[args['issue-date']]) fail(`Unknown issue date "${args['issue-date']}"`);
+  const [start, end] = args.baseline.split('-').map(v => parseInt(v));
+  if (!Number.isFinite(start) || !Number.isFinite(end)) fail(`Baseline must look like 1991-2020, got "${args.baseline}"`);
+  const exclude = args.exclude.split(',').filter(v => v.trim() !== '').map(v => Number(v));
+  if (exclude.some(v => !Number.isInteger(v))) fail(`--exclude must list water years like 2011,2023, got "${args.exclude}"`);
+  const k = parseInt(args.analogs);
+  if (!(k >= 1)) fail(`--analogs must be a positive integer, got "${args.analogs}"`);
+
+  if (args.calibration !== undefined) {
+    if (!CALIBRATION_METHODS[args.calibration]) fail(`Unknown calibration "${args.calibration}"`);
+    if (args.target === 'inflow') fail('--calibration maps annual or aprJul flow; the inflow target is already observed inflow');
+  }
+
+  if (args.probabilities !== undefined && !PROBABILITY_METHODS[args.probabilities]) fail(`Unknown probability method "${args.probabilities}"`);
+  const thresholds = args.thresholds.split(',').filter(v => v.trim() !== '').map(v => Number(v));
+  if (thresholds.some(v => !(v > 0))) fail(`--thresholds must list positive values, got "${args.thresholds}"`);
+
+  const target = args.target as TargetKey;
+  let dataset;
+  try {
+    dataset = loadDataset(fs.readFileSync(args.data, 'utf8'), {
+      baseline: { start, end },
+      basin: args.basin,
+      issueDate: args['issue-date'] as IssueDateKey,
+      exclude
+    });
+  } catch (err) {
+    fail(err instanceof DatasetValidationError ? `${args.data}:\n  ${err.problems.join('\n  ')}` : `${args.data}: ${err.message}`);
+  }
+  // Quality findings are handled with their default actions; list them so batch runs stay auditable
+  if (dataset.issues.length > 0) {
+    process.stderr.write(`${args.data}: ${dataset.issues.length} data issue(s), handled with default actions:\n`);
+    dataset.issues.forEach(issue => process.stderr.write(`  [${issue.severity}] ${issue.message} -> ${issue.actions[0]}\n`));
+  }
+  if (!dataset.availableTargets.includes(target)) fail(`${args.data} has no ${FORECAST_TARGETS[target].column} column for target "${target}"`);
+
+  const model = fitForecastModel(dataset, { target, form: args.model as ModelFormKey, intercept: !args['no-intercept'] });
+  if (!model) fail('The model could not be fitted (singular design matrix)');
+  const calibration = args.calibration === undefined
+    ? null
+    : calibrateInflow(dataset, { method: args.calibration as CalibrationMethod, source: target as Exclude<TargetKey, 'inflow'> });
+  if (args.calibration !== undefined && !calibration) fail(`${args.data} has no inflow_MAF column to calibrate against`);
+
+  const results = readScenarios(args.scenarios).map(({ name, scenario }) => {
+    const forecast = forecastScenario(dataset, model, scenario);
+    const analogs = findScenarioAnalogs(dataset, scenario, { k, target });
+    const corrected = calibration ? correctForecastInflow(calibration, forecast) : null;
+    const categories = args.probabilities === undefined ? null : categoryForecast(dataset, scenario, {
+      target,
+      form: model.form,
+      intercept: model.intercept,
+      method: args.probabilities as ProbabilityMethod,
+      thresholds
+    });
+    return { name, inputs: scenario, forecast, analogs, corrected, categories };
+  });
+
+  let output: string;
+  if (args.out && path.extname(args.out).toLowerCase() === '.json') {
+    output = JSON.stringify({
+      dataset: args.data,
+      basin: dataset.basin,
+      baseline: dataset.baseline,
+      issueDate: dataset.issueDate,
+      target,
+      unit: FORECAST_TARGETS[target].unit,
+      model: { form: model.form, intercept: model.intercept, excludedYears: exclude },
+      calibration: calibration
+        ? { method: calibration.method, n: calibration.n, coefficients: calibration.coefficients, crossValidated: calibration.crossValidated }
+        : null,
+      forecasts: results.map(({ name, inputs, forecast, analogs, corrected, categories }) => ({
+        name,
+        inputs,
+        pct: forecast.pct,
+        value: forecast.value,
+        intervals: forecast.intervals,
+        analogs: {
+          mean: analogs.mean,
+          sd: analogs.sd,
+          years: analogs.analogs.map(a => ({ year: a.year, weight: a.weight }))
+        },
+        ...(corrected ? { correctedInflow: corrected } : {}),
+        ...(categories ? { categories } : {}),
+        warnings: forecast.warnings
+      }))
+    }, null, 2);
+  } else {
+    const unit = FORECAST_TARGETS[target].unit;
+    output = Papa.unparse(results.map(({ name, inputs, forecast, analogs, corrected, categories }) => ({
+      name,
+      swe_pct: inputs.swe,
+      fallSM_pct: inputs.fallSM,
+      springPrecip_pct: inputs.springPrecip,
+      ...(dataset.basin ? { basin: dataset.basin } : {}),
+      issue_date: dataset.issueDate,
+      target,
+      forecast_pct: forecast.pct,
+      [`forecast_${unit}`]: forecast.value,
+      ...Object.fromEntries(INTERVAL_LEVELS.flatMap(level => {
+        const interval = forecast.intervals.find(i => i.level === level);
+        const tag = `pi${Math.round(level * 100)}`;
+        return [
+          [`${tag}_low_pct`, interval?.lowPct],
+          [`${tag}_high_pct`, interval?.highPct],
+          [`${tag}_low_${unit}`, interval?.lowValue],
+          [`${tag}_high_${unit}`, interval?.highValue]
+        ];
+      })),
+      ...(corrected
+        ? {
+            corrected_inflow_MAF: corrected.valueMAF,
+            ...Object.fromEntries(corrected.intervals.flatMap(i => [
+              [`corrected_pi${Math.round(i.level * 100)}_low_MAF`, i.lowMAF],
+              [`corrected_pi${Math.round(i.level * 100)}_high_MAF`, i.highMAF]
+            ]))
+          }
+        : {}),
+      ...(categories
+        ? {
+            prob_below_normal: categories.probabilities.below,
+            prob_near_normal: categories.probabilities.near,
+            prob_above_normal: categories.probabilities.above,
+            ...Object.fromEntries(categories.thresholds.map(t => [`prob_below_${t.value}_${unit}`, t.probability]))
+          }
+        : {}),
+      analog_mean_pct: analogs.mean,
+      analog_sd_pct: analogs.sd,
+      analog_years: analogs.analogs.map(a => a.year).join(' '),
+      warnings: forecast.warnings.join('; ')
+    })));
+  }
+
+  if (args.out) {
+    fs.writeFileSync(args.out, `${output}\n`);
+    process.stderr.write(`Wrote ${results.length} forecasts to ${args.out}\n`);
+  } else {
+    process.stdout.write(`${output}\n`);
+  }
+};
+
+main();
@@ -0,0 +1,471 @@
+// Engine checks against the bundled dataset.
+//
+//   npm test
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import {
+  INTERVAL_LEVELS, FORECAST_TARGETS, MODEL_FORMS,
+  loadDataset, fitForecastModel, forecastScenario, fitOLS, trainingYears, calibrateInflow, correctForecastInflow, categoryForecast,
+  fitModel, leaveOneOutHindcast, skillScores, findAnalogs, mannKendall, sensSlope, movingAverage,
+  espEnsemble, ESP_EXCEEDANCE_LEVELS, POWELL_ELEVATION_STORAGE, POWELL_EVAPORATION_FT,
+  powellStorageAtElevation, powellElevationAtStorage, projectPowellStorage, monteCarloScenario,
+  parseCsv, guessColumnMapping, applyColumnMapping, prepareDataset, datasetBasins, basinDrainageAreas, forecastBasinAggregate,
+  validateColumnMapping, DatasetValidationError, MIN_DATASET_YEARS, PREDICTOR_KEYS,
+  predictorContributions, tornadoSensitivity, responseSurface
+} from './engine';
+import type { Scenario, TargetKey } from './engine';
+
+const dataset = loadDataset(fs.readFileSync('public/water_year_metrics.csv', 'utf8'));
+const normal: Scenario = { swe: 100, fallSM: 100, springPrecip: 100 };
+const dry: Scenario = { swe: 5, fallSM: 40, springPrecip: 20 };
+const wet: Scenario = { swe: 180, fallSM: 130, springPrecip: 160 };
+
+const close = (actual: number, expected: number, tolerance = 1e-8) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance * Math.max(1, Math.abs(expected)), `${actual} is not ${expected}`);
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+test('single-predictor OLS matches the closed-form slope and intercept', () => {
+  const x = dataset.years.map(y => y.swe_pct);
+  const y = dataset.years.map(d => d.streamflow_pct);
+  const xMean = mean(x);
+  const yMean = mean(y);
+  const slope = x.reduce((sum, v, i) => sum + (v - xMean) * (y[i] - yMean), 0) / x.reduce((sum, v) => sum + (v - xMean) ** 2, 0);
+  const fit = fitOLS(x.map(v => [v]), y);
+  close(fit.beta[0], slope);
+  close(fit.intercept, yMean - slope * xMean);
+  assert.ok(fit.r2 > 0 && fit.r2 < 1);
+});
+
+test('the joint OLS fit leaves residuals orthogonal to every predictor', () => {
+  const model = fitForecastModel(dataset, { target: 'annual' });
+  assert.ok(model?.fit);
+  const years = trainingYears(dataset.years);
+  const residuals = years.map((y, i) => y.streamflow_pct - model.fitted[i]);
+  close(residuals.reduce((sum, r) => sum + r, 0), 0, 1e-6);
+  ['swe_pct', 'fallSM_pct', 'springPrecip_pct'].forEach(key => {
+    close(residuals.reduce((sum, r, i) => sum + r * (years[i][key] - 100), 0), 0, 1e-6);
+  });
+});
+
+test('prediction intervals are nested around the forecast and widen away from typical conditions', () => {
+  (['linear', 'log', 'loess'] as const).forEach(form => {
+    const model = fitForecastModel(dataset, { target: 'annual', form });
+    const forecast = forecastScenario(dataset, model, normal);
+    assert.deepEqual(forecast.intervals.map(i => i.level), INTERVAL_LEVELS);
+    forecast.intervals.forEach((interval, i) => {
+      assert.ok(interval.lowPct <= forecast.pct && forecast.pct <= interval.highPct, `${form} ${interval.level}`);
+      const outer = forecast.intervals[i + 1];
+      if (outer) assert.ok(outer.lowPct <= interval.lowPct && interval.highPct <= outer.highPct, `${form} nesting`);
+    });
+  });
+  const model = fitForecastModel(dataset, { target: 'annual' });
+  const width = (scenario: Scenario) => {
+    const outer = forecastScenario(dataset, model, scenario).intervals.at(-1);
+    return outer.highPct - outer.lowPct;
+  };
+  assert.ok(width(wet) > width(normal));
+});
+
+test('forecasts and interval bounds stay non-negative for dry scenarios', () => {
+  (['linear', 'interaction', 'log', 'loess'] as const).forEach(form => {
+    const forecast = forecastScenario(dataset, fitForecastModel(dataset, { target: 'annual', form }), dry);
+    assert.ok(forecast.pct >= 0 && forecast.value >= 0, form);
+    forecast.intervals.forEach(i => assert.ok(i.lowPct >= 0 && i.lowValue >= 0, `${form} ${i.level}`));
+  });
+  // Only the reported forecast is floored; the model's own prediction and fitted values are left alone
+  const model = fitForecastModel(dataset, { target: 'annual' });
+  const prediction = model.predict([dry.swe, dry.fallSM, dry.springPrecip]);
+  assert.equal(prediction.pct, 0);
+  assert.ok(MODEL_FORMS.linear.fromResponse(prediction.response) < 0);
+  close(mean(model.fitted), mean(trainingYears(dataset.years).map(y => y.streamflow_pct)));
+});
+
+test('linear flow calibration reproduces the inflow mean and corrects forecasts consistently', () => {
+  const calibration = calibrateInflow(dataset, { method: 'linear', source: 'annual' });
+  assert.ok(calibration?.coefficients);
+  const { intercept, slope } = calibration.coefficients;
+  close(calibration.apply(100), intercept + slope * 100);
+  close(mean(calibration.points.map(p => p.corrected)), mean(calibration.points.map(p => p.observed)));
+  close(calibration.inSample.bias, 0, 1e-6);
+  assert.ok(calibration.crossValidated.rmse >= calibration.inSample.rmse);
+
+  const forecast = forecastScenario(dataset, fitForecastModel(dataset, { target: 'annual' }), normal);
+  const corrected = correctForecastInflow(calibration, forecast);
+  close(corrected.valueMAF, calibration.apply(forecast.value));
+  corrected.intervals.forEach((interval, i) => {
+    assert.ok(interval.lowMAF <= corrected.valueMAF && corrected.valueMAF <= interval.highMAF);
+    const outer = corrected.intervals[i + 1];
+    if (outer) assert.ok(outer.lowMAF <= interval.lowMAF && interval.highMAF <= outer.highMAF);
+  });
+});
+
+test('bias-corrected inflow stays non-negative for dry forecasts', () => {
+  const forecast = forecastScenario(dataset, fitForecastModel(dataset, { target: 'annual' }), dry);
+  (['linear', 'quantile'] as const).forEach(method => {
+    const corrected = correctForecastInflow(calibrateInflow(dataset, { method, source: 'annual' }), forecast);
+    assert.ok(corrected.valueMAF >= 0, method);
+    corrected.intervals.forEach(i => assert.ok(i.lowMAF >= 0 && i.lowMAF <= i.highMAF, `${method} ${i.level}`));
+  });
+});
+
+test('quantile mapping keeps the rank order of simulated flow', () => {
+  const calibration = calibrateInflow(dataset, { method: 'quantile', source: 'annual' });
+  const flows = [...calibration.points.map(p => p.simulated)].sort((a, b) => a - b);
+  const mapped = flows.map(calibration.apply);
+  mapped.slice(1).forEach((v, i) => assert.ok(v >= mapped[i]));
+  assert.equal(calibrateInflow(dataset, { source: 'annual' }).method, 'linear');
+});
+
+test('quantile mapping matches the extremes and scales by their ratio beyond the training range', () => {
+  const calibration = calibrateInflow(dataset, { method: 'quantile', source: 'annual' });
+  const sim = calibration.points.map(p => p.simulated).sort((a, b) => a - b);
+  const obs = calibration.points.map(p => p.observed).sort((a, b) => a - b);
+  const last = sim.length - 1;
+  close(calibration.apply(sim[0]), obs[0]);
+  close(calibration.apply(sim[last]), obs[last]);
+  close(calibration.apply(2 * sim[last]), 2 * obs[last]);
+  close(calibration.apply(sim[0] / 2), obs[0] / 2);
+  assert.equal(calibration.apply(0), 0);
+  // Halfway between two order statistics of simulated flow maps halfway between the observed pair
+  close(calibration.apply((sim[1] + sim[2]) / 2), (obs[1] + obs[2]) / 2);
+});
+
+test('tercile probabilities sum to one and shift with the scenario', () => {
+  const target = FORECAST_TARGETS.annual;
+  (['residual', 'logistic'] as const).forEach(method => {
+    const thresholds = [0.6, 0.8, 1, 1.2].map(f => f * dataset.means[target.meanKey]);
+    const forecast = categoryForecast(dataset, normal, { target: 'annual', method, thresholds });
+    assert.ok(forecast);
+    const { below, near, above } = forecast.probabilities;
+    [below, near, above].forEach(p => assert.ok(p >= 0 && p <= 1, method));
+    close(below + near + above, 1);
+    assert.ok(forecast.terciles.lower.value < forecast.terciles.upper.value);
+    forecast.thresholds.slice(1).forEach((t, i) => assert.ok(t.probability >= forecast.thresholds[i].probability, method));
+
+    const dryForecast = categoryForecast(dataset, { swe: 50, fallSM: 80, springPrecip: 50 }, { target: 'annual', method });
+    const wetForecast = categoryForecast(dataset, wet, { target: 'annual', method });
+    assert.ok(dryForecast.probabilities.below > dryForecast.probabilities.above, method);
+    assert.ok(wetForecast.probabilities.above > wetForecast.probabilities.below, method);
+  });
+});
+
+test('leave-one-out hindcasts predict each year from a model fitted without it', () => {
+  const years = trainingYears(dataset.years);
+  const target = FORECAST_TARGETS.annual;
+  const hindcast = leaveOneOutHindcast(years, { target });
+  assert.equal(hindcast.length, years.length);
+  [0, 17, years.length - 1].forEach(i => {
+    const withheld = fitModel('linear', years.filter((_, j) => j !== i), { target });
+    const held = years[i];
+    close(hindcast[i].hindcast, withheld.predict([held.swe_pct, held.fallSM_pct, held.springPrecip_pct]).pct);
+    assert.equal(hindcast[i].observed, held.streamflow_pct);
+  });
+  const observed = years.map(y => y.streamflow_pct);
+  const inSample = skillScores(observed, fitModel('linear', years, { target }).fitted);
+  assert.ok(skillScores(observed, hindcast.map(r => r.hindcast)).rmse > inSample.rmse);
+});
+
+// Bundled predictor values with a target that follows a known formula exactly
+const synthetic = (formula: (swe: number, fallSM: number, spring: number) => number) =>
+  dataset.years.map(y => ({ ...y, streamflow_pct: formula(y.swe_pct, y.fallSM_pct, y.springPrecip_pct) }));
+
+test('each model form recovers a target generated by its own equation', () => {
+  const target = FORECAST_TARGETS.annual;
+  const interaction = fitModel('interaction', synthetic((s, f, p) =>
+    100 + 0.6 * (s - 100) + 0.3 * (f - 100) + 0.2 * (p - 100) + (0.4 * (s - 100) * (f - 100)) / 100), { target });
+  [0.6, 0.3, 0.2, 0.4].forEach((b, j) => close(interaction.fit.beta[j], b, 1e-6));
+
+  const log = fitModel('log', synthetic((s, f, p) => 100 * (s / 100) ** 0.7 * (f / 100) ** 0.5 * (p / 100) ** 0.2), { target });
+  [0.7, 0.5, 0.2].forEach((b, j) => close(log.fit.beta[j], b, 1e-6));
+  close(log.predict([100, 100, 100]).pct, 100, 1e-6);
+  close(log.predict([50, 100, 100]).pct, 100 * 0.5 ** 0.7, 1e-6);
+
+  // A local linear fit reproduces a plane exactly, wherever the scenario sits
+  const loess = fitModel('loess', synthetic((s, f, p) => 100 + 0.5 * (s - 100) - 0.2 * (f - 100) + 0.3 * (p - 100)), { target });
+  [[100, 100, 100], [70, 120, 90], [150, 95, 130]].forEach(([s, f, p]) =>
+    close(loess.predict([s, f, p]).pct, 100 + 0.5 * (s - 100) - 0.2 * (f - 100) + 0.3 * (p - 100), 1e-6));
+});
+
+test('analog years are the nearest in standardized predictor space with weights summing to one', () => {
+  const years = dataset.years;
+  const match = years[10];
+  const result = findAnalogs(years, [match.swe_pct, match.fallSM_pct, match.springPrecip_pct], { k: 5 });
+  assert.equal(result.analogs.length, 5);
+  assert.equal(result.analogs[0].year, match.year);
+  close(result.analogs.reduce((sum, a) => sum + a.weight, 0), 1);
+  result.analogs.slice(1).forEach((a, i) => {
+    assert.ok(a.distance >= result.analogs[i].distance);
+    assert.ok(a.weight <= result.analogs[i].weight);
+  });
+  close(result.mean, result.analogs.reduce((sum, a) => sum + a.weight * a.streamflow_pct, 0));
+  assert.ok(result.min <= result.mean && result.mean <= result.max);
+
+  // A zero weight takes a predictor out of the distance
+  const sweOnly = findAnalogs(years, [match.swe_pct, 10, 300], { k: 3, weights: { swe: 1, fallSM: 0, springPrecip: 0 } });
+  const bySwe = [...years].sort((a, b) => Math.abs(a.swe_pct - match.swe_pct) - Math.abs(b.swe_pct - match.swe_pct));
+  assert.deepEqual(sweOnly.analogs.map(a => a.year), bySwe.slice(0, 3).map(y => y.year));
+});
+
+test('Mann-Kendall and Sen\'s slope detect a known trend and resist outliers', () => {
+  const times = Array.from({ length: 20 }, (_, i) => 2000 + i);
+  const rising = times.map(t => 2 * (t - 2000) + 3);
+  const trend = mannKendall(rising);
+  assert.equal(trend.s, (20 * 19) / 2);
+  assert.equal(trend.tau, 1);
+  assert.ok(trend.pValue < 0.001);
+  const sen = sensSlope(times.map(t => t - 2000), rising);
+  close(sen.slope, 2);
+  close(sen.intercept, 3);
+
+  // One wild year barely moves the median slope
+  const spiked = rising.map((v, i) => (i === 5 ? 500 : v));
+  close(sensSlope(times.map(t => t - 2000), spiked).slope, 2);
+
+  const flat = mannKendall([5, 5, 5, 5, 5, 5]);
+  assert.equal(flat.s, 0);
+  close(flat.pValue, 1, 1e-6);
+  assert.equal(mannKendall([...rising].reverse()).tau, -1);
+});
+
+test('the centred moving average leaves the incomplete ends empty', () => {
+  assert.deepEqual(movingAverage([1, 2, 3, 4, 5, 6, 7], 3), [null, 2, 3, 4, 5, 6, null]);
+  assert.deepEqual(movingAverage([1, 2, 3, 4, 5, 6], 5), [null, null, 3, 4, null, null]);
+});
+
+test('ESP traces use Weibull plotting positions and interpolate the exceedance values', () => {
+  const model = fitForecastModel(dataset, { target: 'annual' });
+  const years = dataset.years;
+  const esp = espEnsemble(model, years, [90, 105]);
+  const n = years.length;
+  assert.equal(esp.traces.length, n);
+  esp.traces.forEach((t, i) => {
+    close(t.exceedance, (i + 1) / (n + 1));
+    close(t.pct, model.predict([90, 105, t.springPrecipPct]).pct);
+    if (i > 0) assert.ok(t.pct <= esp.traces[i - 1].pct);
+  });
+
+  assert.deepEqual(esp.exceedance.map(e => e.level), ESP_EXCEEDANCE_LEVELS);
+  esp.exceedance.slice(1).forEach((e, i) => assert.ok(e.pct <= esp.exceedance[i].pct));
+  // Each level sits on the straight line between the two traces whose positions bracket it
+  esp.exceedance.forEach(({ level, pct }) => {
+    const i = esp.traces.findIndex(t => t.exceedance >= level);
+    const lo = esp.traces[i - 1], hi = esp.traces[i];
+    close(pct, lo.pct + ((level - lo.exceedance) / (hi.exceedance - lo.exceedance)) * (hi.pct - lo.pct));
+  });
+
+  // Levels outside the plotting positions hold the extreme traces
+  const short = espEnsemble(model, years.slice(0, 3), [100, 100]);
+  assert.equal(short.exceedance[0].pct, short.traces[0].pct);
+  assert.equal(short.exceedance.at(-1).pct, short.traces.at(-1).pct);
+});
+
+test('Powell projection closes the mass balance, including spill and shortfall at the pool limits', () => {
+  const capacity = POWELL_ELEVATION_STORAGE.at(-1).storage;
+  const areaAt = (storage) => {
+    const i = POWELL_ELEVATION_STORAGE.findIndex(row => row.storage >= storage);
+    if (i <= 0) return POWELL_ELEVATION_STORAGE[Math.max(i, 0)].area;
+    const lo = POWELL_ELEVATION_STORAGE[i - 1], hi = POWELL_ELEVATION_STORAGE[i];
+    return lo.area + ((storage - lo.storage) / (hi.storage - lo.storage)) * (hi.area - lo.area);
+  };
+  const balances = (p) => {
+    // Whatever does not fit between dead and full pool is reported as spill or shortfall
+    const residual = p.startStorage + p.inflow - p.release - p.evaporation - p.endStorage - p.spill + p.shortfall;
+    assert.ok(Math.abs(residual) < 1e-5, `mass balance residual ${residual}`);
+    assert.ok(p.endStorage >= 0 && p.endStorage <= capacity);
+  };
+
+  const refill = projectPowellStorage({ startStorage: 9.6, inflow: 9, release: 7.48 });
+  balances(refill);
+  assert.equal(refill.spill, 0);
+  assert.equal(refill.shortfall, 0);
+  close(refill.evaporation, POWELL_EVAPORATION_FT * (areaAt(refill.startStorage) + areaAt(refill.endStorage)) / 2 / 1000, 1e-5);
+  close(refill.startElevation, 3575);
+  assert.deepEqual(refill.crossings.map(c => [c.elevation, c.direction]), [[3575, 'above']]);
+
+  const drawdown = projectPowellStorage({ startStorage: 6.5, inflow: 4, release: 9 });
+  balances(drawdown);
+  assert.deepEqual(drawdown.crossings.map(c => [c.elevation, c.direction]), [[3525, 'below'], [3490, 'below']]);
+  assert.equal(drawdown.endTier, 'Lower Elevation Balancing');
+
+  const spill = projectPowellStorage({ startStorage: 23, inflow: 15, release: 7.48 });
+  balances(spill);
+  assert.ok(spill.spill > 0);
+  assert.equal(spill.endStorage, capacity);
+  assert.equal(spill.endElevation, 3700);
+
+  const empty = projectPowellStorage({ startStorage: 1, inflow: 2, release: 9 });
+  balances(empty);
+  assert.ok(empty.shortfall > 0);
+  assert.equal(empty.endStorage, 0);
+  assert.equal(empty.endElevation, 3370);
+
+  // The elevation and storage lookups invert each other inside the table and clamp outside it
+  [3380, 3490, 3512.5, 3640, 3699].forEach(e => close(powellElevationAtStorage(powellStorageAtElevation(e)), e));
+  assert.equal(powellStorageAtElevation(3300), 0);
+  assert.equal(powellElevationAtStorage(30), 3700);
+});
+
+test('Monte Carlo adds residual error to the unclamped response and floors each draw once', () => {
+  const model = fitForecastModel(dataset, { target: 'annual' });
+  // Just below zero before the floor, with a standard error several times larger
+  const nearZero: Scenario = { swe: 20, fallSM: 50, springPrecip: 50 };
+  const prediction = model.predict([nearZero.swe, nearZero.fallSM, nearZero.springPrecip]);
+  const unclamped = 100 + prediction.response;
+  assert.ok(unclamped < 0 && unclamped > -prediction.se);
+
+  const mc = monteCarloScenario(dataset, model, nearZero, { samples: 4000 });
+  const percentile = (level: number) => mc.percentiles.find(p => p.level === level).pct;
+  // More than half the draws fall below zero before the floor, so the median is zero
+  assert.equal(percentile(0.5), 0);
+  // The upper tail follows the normal draw around the unclamped value, not one centred on the floored forecast
+  [[0.75, 0.6745], [0.9, 1.2816], [0.95, 1.6449]].forEach(([level, z]) => {
+    const expected = unclamped + z * prediction.se;
+    assert.ok(Math.abs(percentile(level) - expected) < 0.1 * prediction.se, `P${level * 100} ${percentile(level)}, expected ${expected}`);
+  });
+  assert.ok(monteCarloScenario(dataset, model, dry, { residual: false }).percentiles.every(p => p.pct === 0));
+
+  // A lognormal input with a zero mean draws zeros rather than NaN, so no draw is lost
+  const zeroInput = monteCarloScenario(dataset, model, { ...dry, springPrecip: 0 }, {
+    samples: 500,
+    uncertainty: { springPrecip: { distribution: 'lognormal', sigma: 10 }, swe: { distribution: 'lognormal', sigma: 5 } }
+  });
+  assert.equal(zeroInput.samples, 500);
+  assert.ok(Number.isFinite(zeroInput.mean.pct) && zeroInput.mean.pct >= 0);
+});
+
+test('sub-basin total correlates every basin over the same water years when their records differ', () => {
+  const { rows, columns } = parseCsv(fs.readFileSync('public/water_year_metrics.csv', 'utf8'));
+  // Copies of the bundled record as basins with their own runoff wobble, optionally over fewer years
+  const basin = (name: string, area: number, wobble: (year: number) => number, from = 0, to = Infinity) => rows
+    .filter(r => Number(r.water_year) >= from && Number(r.water_year) <= to)
+    .map(r => ({ ...r, basin: name, drainage_area_km2: area, total_streamflow_mm: Number(r.total_streamflow_mm) * wobble(Number(r.water_year)) }));
+  const aggregate = (basinRowsList) => {
+    const raw = basinRowsList.flat();
+    const prepared = prepareDataset(applyColumnMapping(raw, guessColumnMapping([...columns, 'basin', 'drainage_area_km2']))).rows;
+    return forecastBasinAggregate(prepared, { basins: datasetBasins(prepared), areas: basinDrainageAreas(prepared), scenario: normal });
+  };
+  const checkIntervals = (agg) => agg.intervals.forEach(i => {
+    assert.ok(Number.isFinite(i.lowMAF) && Number.isFinite(i.highMAF), `${i.level}`);
+    assert.ok(i.lowMAF <= agg.totalMAF && agg.totalMAF <= i.highMAF, `${i.level}`);
+  });
+
+  const green = basin('Green', 45000, year => 1 + 0.3 * Math.sin(year));
+  const gunnison = basin('Gunnison', 20500, year => 1 + 0.3 * Math.cos(1.7 * year));
+  const sanJuan = basin('San Juan', 33000, year => 1 - 0.25 * Math.sin(0.6 * year), 1995);
+  const overlapping = aggregate([green, gunnison, sanJuan]);
+  assert.equal(overlapping.basins.length, 3);
+  assert.equal(overlapping.correlationYears, sanJuan.length);
+  checkIntervals(overlapping);
+  // A correlation matrix over one common set of years is positive semi-definite
+  const [[a, b, c], [, d, e], [, , f]] = overlapping.residualCorrelation;
+  overlapping.residualCorrelation.forEach((row, i) => row.forEach((r, j) => {
+    assert.ok(Math.abs(r) <= 1 + 1e-12);
+    assert.equal(r, overlapping.residualCorrelation[j][i]);
+  }));
+  assert.ok(a * d - b * b >= 0);
+  assert.ok(a * (d * f - e * e) - b * (b * f - e * c) + c * (b * e - d * c) >= -1e-12);
+
+  // Basins that hardly overlap are taken as fully correlated, so their half-widths simply add up
+  const disjoint = aggregate([basin('Green', 45000, () => 1, 0, 2004), basin('San Juan', 33000, () => 1, 2003)]);
+  assert.equal(disjoint.correlationYears, 2);
+  assert.ok(disjoint.residualCorrelation.flat().every(r => r === 1));
+  checkIntervals(disjoint);
+  disjoint.intervals.forEach(i => {
+    const upper = disjoint.basins.reduce((sum, b) => sum + b.intervals.find(bi => bi.level === i.level).highMAF - b.volumeMAF, 0);
+    close(i.highMAF - disjoint.totalMAF, upper);
+  });
+});
+
+test('each forecast target is fitted to its own column and reported in its own units', () => {
+  (['annual', 'aprJul', 'inflow'] as TargetKey[]).forEach(target => {
+    const spec = FORECAST_TARGETS[target];
+    const model = fitForecastModel(dataset, { target });
+    const training = trainingYears(dataset.years);
+    // With an intercept the fitted values average to the observed target
+    close(mean(model.fitted), mean(training.map(y => y[spec.pctKey])), 1e-6);
+    const forecast = forecastScenario(dataset, model, wet);
+    assert.equal(forecast.target, target);
+    assert.equal(forecast.unit, spec.unit);
+    close(forecast.value, (forecast.pct / 100) * dataset.means[spec.meanKey]);
+    forecast.intervals.forEach(i => close(i.highValue, (i.highPct / 100) * dataset.means[spec.meanKey]));
+    assert.ok(forecast.pct > forecastScenario(dataset, model, dry).pct, target);
+  });
+
+  // Without an inflow column only the VIC flow targets are offered and nothing is calibrated
+  const { rows } = parseCsv(fs.readFileSync('public/water_year_metrics.csv', 'utf8'));
+  const noInflow = loadDataset(rows.map(({ inflow_MAF, ...rest }) => rest));
+  assert.deepEqual(noInflow.availableTargets, ['annual', 'aprJul']);
+  assert.equal(calibrateInflow(noInflow), null);
+});
+
+test('uploaded files are mapped onto the model columns and rejected with the reasons when unusable', () => {
+  const { rows, columns } = parseCsv(fs.readFileSync('public/water_year_metrics.csv', 'utf8'));
+  // Header names are matched case-insensitively; anything else has to be mapped by hand
+  const shouting = rows.map(r => Object.fromEntries(Object.entries(r).map(([k, v]) => [k.toUpperCase(), v])));
+  const guessed = guessColumnMapping(columns.map(c => c.toUpperCase()));
+  assert.equal(guessed.water_year, 'WATER_YEAR');
+  assert.deepEqual(validateColumnMapping(guessed), []);
+  close(loadDataset(shouting).means.streamflow, dataset.means.streamflow);
+
+  const renamed = rows.map(({ apr1_swe_mm, ...rest }) => ({ ...rest, snow: apr1_swe_mm }));
+  const unmapped = guessColumnMapping(Object.keys(renamed[0]));
+  assert.equal(unmapped.apr1_swe_mm, '');
+  assert.ok(validateColumnMapping(unmapped).length > 0);
+  assert.throws(() => loadDataset(renamed), DatasetValidationError);
+  const mapped = loadDataset(renamed, { mapping: { ...unmapped, apr1_swe_mm: 'snow' } });
+  close(mapped.means.swe, dataset.means.swe);
+
+  // Too short a record is reported with the minimum it needs
+  assert.throws(() => loadDataset(rows.slice(0, MIN_DATASET_YEARS - 1)), (err: DatasetValidationError) =>
+    err.problems.some(p => p.includes(`At least ${MIN_DATASET_YEARS} water years`)));
+});
+
+test('percentages of average are taken against the chosen baseline period', () => {
+  const csv = fs.readFileSync('public/water_year_metrics.csv', 'utf8');
+  const baseline = { start: 1985, end: 2014 };
+  const early = loadDataset(csv, { baseline });
+  const inBaseline = early.years.filter(y => y.year >= baseline.start && y.year <= baseline.end);
+  assert.equal(inBaseline.length, 30);
+  close(early.means.streamflow, mean(inBaseline.map(y => y.streamflow_mm)));
+  close(mean(inBaseline.map(y => y.streamflow_pct)), 100);
+  close(mean(inBaseline.map(y => y.swe_pct)), 100);
+  // The same year is a different percentage of a different normal
+  const year = dataset.years.find(y => y.year === 2002);
+  const sameYear = early.years.find(y => y.year === 2002);
+  close(sameYear.streamflow_pct * early.means.streamflow, year.streamflow_pct * dataset.means.streamflow);
+
+  assert.throws(() => loadDataset(csv, { baseline: { start: 1960, end: 1987 } }), DatasetValidationError);
+});
+
+test('sensitivity views agree with the model: additive contributions, tornado swings and the response grid', () => {
+  const model = fitForecastModel(dataset, { target: 'annual' });
+  const pcts = [120, 90, 110];
+  const training = trainingYears(dataset.years);
+  // For the linear form each contribution is β × anomaly and together they explain the departure from 100%
+  const contributions = predictorContributions(model, pcts);
+  PREDICTOR_KEYS.forEach((key, j) => close(contributions[key], model.fit.beta[j] * (pcts[j] - 100), 1e-6));
+  close(PREDICTOR_KEYS.reduce((sum, key) => sum + contributions[key], 0), model.predict(pcts).pct - model.predict([100, 100, 100]).pct, 1e-6);
+
+  const tornado = tornadoSensitivity(model, training, pcts);
+  assert.deepEqual([...tornado.map(t => t.key)].sort(), [...PREDICTOR_KEYS].sort());
+  tornado.slice(1).forEach((t, i) => assert.ok(t.swing <= tornado[i].swing));
+  tornado.forEach(t => {
+    const j = PREDICTOR_KEYS.indexOf(t.key);
+    const values = training.map(y => y[`${t.key}_pct`]);
+    assert.equal(t.min, Math.min(...values));
+    assert.equal(t.max, Math.max(...values));
+    close(t.atMax, model.predict(pcts.map((p, i) => (i === j ? t.max : p))).pct);
+  });
+
+  const steps = 6;
+  const surface = responseSurface(model, training, pcts, ['swe', 'springPrecip'], steps);
+  assert.equal(surface.cells.length, steps * steps);
+  const corner = surface.cells.find(c => c.xi === 0 && c.yi === steps - 1);
+  close(corner.x, surface.xRange.min + (0.5 / steps) * (surface.xRange.max - surface.xRange.min));
+  close(corner.y, surface.yRange.min + ((steps - 0.5) / steps) * (surface.yRange.max - surface.yRange.min));
+  close(corner.pct, model.predict([corner.x, pcts[1], corner.y]).pct);
+  assert.equal(surface.min, Math.min(...surface.cells.map(c => c.pct)));
+  assert.equal(surface.max, Math.max(...surface.cells.map(c => c.pct)));
+});
@@ -0,0 +1,1978 @@
+// Forecasting engine: dataset parsing and normalisation, model fitting, forecasts, analogs and the
+// derived analyses behind the web tool. Nothing here touches the DOM, so the same code runs in the
+// browser and in the command-line tool (src/cli.ts).
+import Papa from 'papaparse';
+
+// Lanczos approximation of ln Γ(x)
+const logGamma = (x) => {
+  const c = [76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (let j = 0; j < 6; j++) ser += c[j] / ++y;
+  return -tmp + Math.log(2.5066282746310005 * ser / x);
+};
+
+// Continued-fraction evaluation of the regularized incomplete beta function
+const betaContinuedFraction = (a, b, x) => {
+  const maxIter = 200;
+  const eps = 3e-14;
+  const fpmin = 1e-300;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < fpmin) d = fpmin;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= maxIter; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a - 1 + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < fpmin) d = fpmin;
+    c = 1 + aa / c;
+    if (Math.abs(c) < fpmin) c = fpmin;
+    d = 1 / d;
+    h *= d * c;
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + 1 + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < fpmin) d = fpmin;
+    c = 1 + aa / c;
+    if (Math.abs(c) < fpmin) c = fpmin;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < eps) break;
+  }
+  return h;
+};
+
+const incompleteBeta = (a, b, x) => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  if (x < (a + 1) / (a + b + 2)) {
+    return front * betaContinuedFraction(a, b, x) / a;
+  }
+  return 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+};
+
+// Cumulative distribution function of Student's t with df degrees of freedom
+const studentTCdf = (t, df) => {
+  const tail = 0.5 * incompleteBeta(df / 2, 0.5, df / (df + t * t));
+  return t >= 0 ? 1 - tail : tail;
+};
+
+// Inverse of the Student's t CDF, found by bisection
+const studentTQuantile = (prob, df) => {
+  let lo = -1000;
+  let hi = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (studentTCdf(mid, df) < prob) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+// Gauss-Jordan inversion with partial pivoting; returns null for singular matrices
+const invertMatrix = (A) => {
+  const n = A.length;
+  const M = A.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-12) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    const p = M[col][col];
+    for (let j = 0; j < 2 * n; j++) M[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = M[r][col];
+      if (f === 0) continue;
+      for (let j = 0; j < 2 * n; j++) M[r][j] -= f * M[col][j];
+    }
+  }
+  return M.map(row => row.slice(n));
+};
+
+export const INTERVAL_LEVELS = [0.5, 0.8, 0.95];
+
+// Prediction intervals for a new observation: returns a function of the predictor anomalies x0.
+// Uses the residual variance plus the coefficient covariance, so intervals widen away from the data centroid.
+const predictionIntervals = (fit, levels = INTERVAL_LEVELS) => {
+  const quantiles = levels.map(level => studentTQuantile(0.5 + level / 2, fit.df));
+  return (x0) => {
+    const d0 = fit.hasIntercept ? [1, ...x0] : [...x0];
+    const leverage = d0.reduce((sum, di, i) => sum + di * fit.XtXInv[i].reduce((s, v, j) => s + v * d0[j], 0), 0);
+    const se = fit.rse * Math.sqrt(1 + leverage);
+    return levels.map((level, i) => ({ level, halfWidth: quantiles[i] * se, se }));
+  };
+};
+
+// Quantities the model can be fitted against. valueKey holds the native units, pctKey the % of baseline average.
+export const FORECAST_TARGETS = {
+  annual: {
+    label: 'Annual Streamflow',
+    shortLabel: 'Annual flow',
+    unit: 'mm',
+    decimals: 1,
+    column: 'total_streamflow_mm',
+    meanKey: 'streamflow',
+    valueKey: 'streamflow_mm',
+    pctKey: 'streamflow_pct'
+  },
+  aprJul: {
+    label: 'April-July Streamflow',
+    shortLabel: 'Apr-Jul flow',
+    unit: 'mm',
+    decimals: 1,
+    column: 'key_streamflow_apr_jul_mm',
+    meanKey: 'aprJul',
+    valueKey: 'aprJul_mm',
+    pctKey: 'aprJul_pct'
+  },
+  inflow: {
+    label: 'Lake Powell Unregulated Inflow',
+    shortLabel: 'Powell inflow',
+    unit: 'MAF',
+    decimals: 2,
+    column: 'inflow_MAF',
+    meanKey: 'inflow',
+    valueKey: 'inflow_maf',
+    pctKey: 'inflow_pct'
+  }
+};
+
+// Columns the model understands. Uploaded files are mapped onto these names before processing.
+export const DATASET_FIELDS = [
+  { column: 'water_year', label: 'Water year', required: true },
+  { column: 'basin', label: 'Basin name', required: false, text: true },
+  { column: 'drainage_area_km2', label: 'Drainage area (km²)', required: false },
+  { column: 'apr1_swe_mm', label: 'April 1st SWE (mm)', required: true },
+  { column: 'fall_sm_oct_nov_avg_mm', label: 'Fall soil moisture, Oct-Nov avg (mm)', required: true },
+  { column: 'spring_precip_apr_jul_mm', label: 'Spring precipitation, Apr-Jul (mm)', required: true },
+  { column: 'jan1_swe_mm', label: 'January 1st SWE (mm)', required: false, issueDate: 'jan1' },
+  { column: 'precip_oct_dec_mm', label: 'Precipitation, Oct-Dec (mm)', required: false, issueDate: 'jan1' },
+  { column: 'feb1_swe_mm', label: 'February 1st SWE (mm)', required: false, issueDate: 'feb1' },
+  { column: 'precip_oct_jan_mm', label: 'Precipitation, Oct-Jan (mm)', required: false, issueDate: 'feb1' },
+  { column: 'mar1_swe_mm', label: 'March 1st SWE (mm)', required: false, issueDate: 'mar1' },
+  { column: 'precip_oct_feb_mm', label: 'Precipitation, Oct-Feb (mm)', required: false, issueDate: 'mar1' },
+  { column: 'may1_swe_mm', label: 'May 1st SWE (mm)', required: false, issueDate: 'may1' },
+  { column: 'precip_oct_apr_mm', label: 'Precipitation, Oct-Apr (mm)', required: false, issueDate: 'may1' },
+  { column: 'total_streamflow_mm', label: 'Annual streamflow (mm)', required: false, target: 'annual' },
+  { column: 'key_streamflow_apr_jul_mm', label: 'April-July streamflow (mm)', required: false, target: 'aprJul' },
+  { column: 'inflow_MAF', label: 'Lake Powell inflow (MAF)', required: false, target: 'inflow' }
+];
+
+// Forecast issue dates. Each maps the snowpack and precipitation predictors onto the columns known on
+// that date: before April and on May 1 the precipitation predictor is observed precipitation since
+// October 1, on April 1 it is the April-July spring precipitation scenario the tool was built around.
+export const ISSUE_DATES = {
+  jan1: {
+    label: 'January 1',
+    sweColumn: 'jan1_swe_mm',
+    sweLabel: 'January 1st SWE',
+    precipColumn: 'precip_oct_dec_mm',
+    precipLabel: 'Precipitation to Date (Oct-Dec)',
+    precipShortLabel: 'Precip to date',
+    precipObserved: true
+  },
+  feb1: {
+    label: 'February 1',
+    sweColumn: 'feb1_swe_mm',
+    sweLabel: 'February 1st SWE',
+    precipColumn: 'precip_oct_jan_mm',
+    precipLabel: 'Precipitation to Date (Oct-Jan)',
+    precipShortLabel: 'Precip to date',
+    precipObserved: true
+  },
+  mar1: {
+    label: 'March 1',
+    sweColumn: 'mar1_swe_mm',
+    sweLabel: 'March 1st SWE',
+    precipColumn: 'precip_oct_feb_mm',
+    precipLabel: 'Precipitation to Date (Oct-Feb)',
+    precipShortLabel: 'Precip to date',
+    precipObserved: true
+  },
+  apr1: {
+    label: 'April 1',
+    sweColumn: 'apr1_swe_mm',
+    sweLabel: 'April 1st SWE',
+    precipColumn: 'spring_precip_apr_jul_mm',
+    precipLabel: 'Spring Precipitation (Apr-Jul)',
+    precipShortLabel: 'Spring Precip',
+    precipObserved: false
+  },
+  may1: {
+    label: 'May 1',
+    sweColumn: 'may1_swe_mm',
+    sweLabel: 'May 1st SWE',
+    precipColumn: 'precip_oct_apr_mm',
+    precipLabel: 'Precipitation to Date (Oct-Apr)',
+    precipShortLabel: 'Precip to date',
+    precipObserved: true
+  }
+};
+
+export const DEFAULT_ISSUE_DATE = 'apr1';
+
+// Issue dates whose SWE and precipitation columns are present and numeric in every row
+export const availableIssueDates = (rows) => (Object.keys(ISSUE_DATES) as IssueDateKey[])
+  .filter(key => rows.every(r =>
+    Number.isFinite(r[ISSUE_DATES[key].sweColumn]) && Number.isFinite(r[ISSUE_DATES[key].precipColumn])));
+
+// Basin of a canonical row; files without a basin column are one unnamed basin ('')
+export const rowBasin = (row) => (row.basin === undefined || row.basin === null ? '' : String(row.basin).trim());
+
+// Named basins in order of first appearance; empty for single-basin files
+export const datasetBasins = (rows) => [...new Set<string>(rows.map(rowBasin))].filter(basin => basin !== '');
+
+export const basinRows = (rows, basin = '') => rows.filter(r => rowBasin(r) === basin);
+
+// Drainage area per basin from the drainage_area_km2 column (first usable value), null where absent
+export const basinDrainageAreas = (rows) => Object.fromEntries(datasetBasins(rows).map(basin => {
+  const area = basinRows(rows, basin).map(r => r.drainage_area_km2).find(v => Number.isFinite(v) && v > 0);
+  return [basin, area ?? null];
+}));
+
+// Units values can be shown in. Depths are relative to mm and volumes to m³; converting between the two
+// multiplies or divides by the contributing drainage area (1 mm over 1 km² is 1,000 m³).
+export const DISPLAY_UNITS = {
+  mm: { label: 'mm', kind: 'depth', factor: 1, decimals: 1 },
+  in: { label: 'in', kind: 'depth', factor: 25.4, decimals: 2 },
+  AF: { label: 'AF', kind: 'volume', factor: 1233.48, decimals: 0 },
+  MAF: { label: 'MAF', kind: 'volume', factor: 1233.48e6, decimals: 2 },
+  km3: { label: 'km³', kind: 'volume', factor: 1e9, decimals: 2 },
+  m3: { label: 'm³', kind: 'volume', factor: 1, decimals: 0 }
+};
+
+// Colorado River at Lees Ferry (USGS 09380000), 111,800 mi²
+export const DEFAULT_DRAINAGE_AREA_KM2 = 289560;
+
+export const convertUnits = (value, from, to, areaKm2 = DEFAULT_DRAINAGE_AREA_KM2) => {
+  const source = DISPLAY_UNITS[from];
+  const dest = DISPLAY_UNITS[to];
+  let base = value * source.factor;
+  if (source.kind !== dest.kind) base = source.kind === 'depth' ? base * areaKm2 * 1000 : base / (areaKm2 * 1000);
+  return base / dest.factor;
+};
+
+export const MIN_DATASET_YEARS = 10;
+export const MIN_BASELINE_YEARS = 5;
+
+export const DEFAULT_BASELINE = { start: 1991, end: 2020 };
+
+// Normal periods used by partner agencies; 'Full record' is resolved against the active dataset
+export const BASELINE_PRESETS = [
+  { label: '1991-2020 (current WMO normal)', start: 1991, end: 2020 },
+  { label: '1981-2010', start: 1981, end: 2010 },
+  { label: '1985-2014', start: 1985, end: 2014 }
+];
+
+// Initial mapping suggestion: exact column name, then a case-insensitive match
+export const guessColumnMapping = (columns) => Object.fromEntries(DATASET_FIELDS.map(field => {
+  const match = columns.find(c => c === field.column) ||
+    columns.find(c => c.trim().toLowerCase() === field.column.toLowerCase());
+  return [field.column, match || ''];
+}));
+
+// Check a column mapping before any rows are read. Returns a list of problems; empty means usable.
+export const validateColumnMapping = (mapping) => {
+  const errors = [];
+  DATASET_FIELDS
+    .filter(field => field.required && !mapping[field.column])
+    .forEach(field => errors.push(`No column is mapped to ${field.label}.`));
+  if (!DATASET_FIELDS.some(field => field.target && mapping[field.column])) {
+    errors.push('At least one forecast target column must be mapped.');
+  }
+  return errors;
+};
+
+// Check cleaned canonical rows (see resolveDataQuality) against the minimum record and baseline lengths
+export const validateDatasetSize = (rows, baseline = DEFAULT_BASELINE) => {
+  const errors = [];
+  if (rows.length < MIN_DATASET_YEARS) {
+    errors.push(`At least ${MIN_DATASET_YEARS} water years are required; the file has ${rows.length} usable.`);
+  }
+  const baselineYears = rows.filter(r => r.water_year >= baseline.start && r.water_year <= baseline.end).length;
+  if (baselineYears < MIN_BASELINE_YEARS) {
+    errors.push(`At least ${MIN_BASELINE_YEARS} water years within the ${baseline.start}-${baseline.end} baseline are required; the file has ${baselineYears}.`);
+  }
+  DATASET_FIELDS.filter(field => field.required).forEach(field => {
+    if (rows.some(r => !Number.isFinite(r[field.column]))) {
+      errors.push(`${field.label} still has values that could not be repaired.`);
+    }
+  });
+  return errors;
+};
+
+// Rename mapped columns to their canonical names and drop everything else. Rows stay in file order so
+// quality findings can refer to them; resolveDataQuality orders the cleaned rows by water year.
+export const applyColumnMapping = (rows, mapping) => rows.map(r => Object.fromEntries(
+  DATASET_FIELDS
+    .filter(field => mapping[field.column])
+    .map(field => [field.column, r[mapping[field.column]]])
+));
+
+// Robust z-score above which a value is reported as a statistical outlier
+const OUTLIER_Z = 3.5;
+
+// Data-quality findings on canonical rows (applyColumnMapping output, values not yet coerced). Each issue
+// lists its handling options with the default first: errors make the data unusable until handled,
+// warnings are informational. Row indices refer to the rows passed in; duplicate, outlier and gap checks
+// run within each basin.
+export const checkDataQuality = (rows): DataIssue[] => {
+  const issues: DataIssue[] = [];
+  const measured = DATASET_FIELDS.filter(field => field.column !== 'water_year' && !field.text && rows.some(r => field.column in r));
+  
+  const validYear = rows.map(r => typeof r.water_year === 'number' && Number.isInteger(r.water_year));
+  rows.forEach((r, row) => {
+    if (validYear[row]) return;
+    const year = r.water_year;
+    issues.push({
+      id: `row${row}:water_year`, kind: 'invalid-year', severity: 'error', row, year: null, basin: rowBasin(r), column: 'water_year',
+      message: `Row ${row + 1} has no valid water year (${year === null || year === undefined || year === '' ? 'blank' : `"${year}"`}).`,
+      actions: ['exclude', 'block']
+    });
+  });
+  
+  const basins = [...new Set<string>(rows.map(rowBasin))];
+  basins.forEach(basin => {
+    const members = rows.map((r, row) => ({ r, row })).filter(({ r }) => rowBasin(r) === basin);
+    // Where a finding is, e.g. " in 1988" or " in Gunnison 1988"
+    const at = (year) => (year !== null ? ` in ${basin ? `${basin} ` : ''}${year}` : basin ? ` in ${basin}` : '');
+    
+    const seenYears = new Set<number>();
+    members.forEach(({ r, row }) => {
+      if (!validYear[row]) return;
+      const year = r.water_year;
+      if (seenYears.has(year)) {
+        issues.push({
+          id: `row${row}:duplicate`, kind: 'duplicate-year', severity: 'error', row, year, basin, column: 'water_year',
+          message: `Water year ${year} appears more than once${basin ? ` for ${basin}` : ''}; row ${row + 1} repeats an earlier row.`,
+          actions: ['exclude', 'block']
+        });
+      }
+      seenYears.add(year);
+    });
+    
+    measured.forEach(field => {
+      const valid = [];
+      members.forEach(({ r, row }) => {
+        const value = r[field.column];
+        const year = validYear[row] ? r.water_year : null;
+        const cell = { row, year, basin, column: field.column };
+        if (value === null || value === undefined || value === '') {
+          issues.push({ ...cell, id: `row${row}:${field.column}`, kind: 'missing', severity: 'error',
+            message: `${field.label} is blank${at(year)}.`, actions: ['interpolate', 'exclude', 'block'] });
+        } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+          issues.push({ ...cell, id: `row${row}:${field.column}`, kind: 'non-numeric', severity: 'error',
+            message: `${field.label} is not a number${at(year)} ("${value}").`, actions: ['interpolate', 'exclude', 'block'] });
+        } else if (value < 0) {
+          issues.push({ ...cell, id: `row${row}:${field.column}`, kind: 'negative', severity: 'error',
+            message: `${field.label} is negative${at(year)} (${value}), which is physically impossible.`, actions: ['exclude', 'interpolate', 'block'] });
+        } else {
+          valid.push({ ...cell, value });
+        }
+      });
+      
+      // Median absolute deviation scaled to a normal standard deviation
+      const center = median(valid.map(v => v.value));
+      const mad = 1.4826 * median(valid.map(v => Math.abs(v.value - center)));
+      if (!(mad > 0)) return;
+      valid.forEach(v => {
+        const z = (v.value - center) / mad;
+        if (Math.abs(z) > OUTLIER_Z) {
+          issues.push({ ...v, id: `row${v.row}:${field.column}`, kind: 'outlier', severity: 'warning',
+            message: `${field.label}${v.year !== null ? at(v.year) : ` in row ${v.row + 1}`} (${v.value}) is ${Math.abs(z).toFixed(1)} robust SDs ${z > 0 ? 'above' : 'below'} the median.`,
+            actions: ['keep', 'exclude', 'interpolate'] });
+        }
+      });
+    });
+    
+    const years = [...seenYears].sort((a, b) => a - b);
+    for (let i = 1; i < years.length; i++) {
+      for (let year = years[i - 1] + 1; year < years[i]; year++) {
+        issues.push({ id: basin ? `gap:${basin}:${year}` : `gap:${year}`, kind: 'missing-year', severity: 'warning', row: null, year, basin, column: null,
+          message: `Water year ${year} is missing from the record${basin ? ` for ${basin}` : ''}.`, actions: ['keep', 'interpolate', 'block'] });
+      }
+    }
+  });
+  return issues;
+};
+
+// Apply the chosen handling (default: each issue's first action) and return cleaned rows sorted by
+// water year. Interpolation is linear in water year between the nearest usable values of the column in
+// the same basin, holding the nearest value at either end of the record.
+export const resolveDataQuality = (rows, issues: DataIssue[], actions: Record<string, IssueAction> = {}) => {
+  const actionFor = (issue) => actions[issue.id] ?? issue.actions[0];
+  const blocked = issues.filter(issue => actionFor(issue) === 'block');
+  const excludedRows = new Set<number>(issues.filter(i => i.row !== null && actionFor(i) === 'exclude').map(i => i.row));
+  const interpolateCells = issues.filter(i => i.row !== null && i.kind !== 'missing-year' && actionFor(i) === 'interpolate');
+  const filledYears = issues.filter(i => i.kind === 'missing-year' && actionFor(i) === 'interpolate');
+  const measured = DATASET_FIELDS.filter(field => field.column !== 'water_year' && !field.text && rows.some(r => field.column in r));
+  
+  const kept = rows
+    .map((r, row) => ({ ...r, row }))
+    .filter(r => !excludedRows.has(r.row));
+  const pending = new Set(interpolateCells.map(i => `${i.row}:${i.column}`));
+  const usable = (r, column) => !pending.has(`${r.row}:${column}`) && typeof r[column] === 'number' && Number.isFinite(r[column]) && r[column] >= 0;
+  
+  const interpolateAt = (basin, year, column) => {
+    const points = kept.filter(r => rowBasin(r) === basin && usable(r, column)).sort((a, b) => a.water_year - b.water_year);
+    if (points.length === 0) return NaN;
+    const after = points.findIndex(p => p.water_year >= year);
+    if (after === -1) return points[points.length - 1][column];
+    if (after === 0) return points[0][column];
+    const lo = points[after - 1], hi = points[after];
+    return lo[column] + ((year - lo.water_year) / (hi.water_year - lo.water_year)) * (hi[column] - lo[column]);
+  };
+  
+  const interpolated = [];
+  const repaired = kept.map(r => {
+    const cells = interpolateCells.filter(i => i.row === r.row);
+    const values = Object.fromEntries(cells.map(i => [i.column, interpolateAt(rowBasin(r), r.water_year, i.column)]));
+    cells.forEach(i => interpolated.push({ year: r.water_year, basin: i.basin, column: i.column }));
+    const { row, ...rest } = r;
+    return { ...rest, ...values };
+  });
+  const filled = filledYears.map(({ year, basin }) => {
+    measured.forEach(field => interpolated.push({ year, basin, column: field.column }));
+    return {
+      water_year: year,
+      ...(basin ? { basin } : {}),
+      ...Object.fromEntries(measured.map(field => [field.column, interpolateAt(basin, year, field.column)]))
+    };
+  });
+  
+  return {
+    rows: [...repaired, ...filled].sort((a, b) => a.water_year - b.water_year),
+    blocked,
+    excludedRows: [...excludedRows].sort((a, b) => a - b),
+    interpolated
+  };
+};
+
+// Quality check and handling in one step; actions maps issue ids to a choice from the issue's actions
+export const prepareDataset = (rows, actions: Record<string, IssueAction> = {}) => {
+  const issues = checkDataQuality(rows);
+  return { issues, actions, ...resolveDataQuality(rows, issues, actions) };
+};
+
+// Equal-width bins over the range of the values; value is the bin centre
+const createHistogram = (values, numBins = 15) => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const binWidth = (max - min) / numBins;
+  const bins = Array(numBins).fill(0);
+
+  values.forEach(v => {
+    const binIndex = Math.min(Math.floor((v - min) / binWidth), numBins - 1);
+    bins[binIndex]++;
+  });
+
+  return bins.map((count, i) => ({
+    value: min + (i + 0.5) * binWidth,
+    count: count,
+    binStart: min + i * binWidth,
+    binEnd: min + (i + 1) * binWidth
+  }));
+};
+
+// Normalise canonical rows against the baseline (normal) period and derive slider ranges and histograms.
+// The swe and springPrecip predictors take the issue date's SWE and precipitation columns.
+export const processDataset = (
+  data,
+  baseline = DEFAULT_BASELINE,
+  issueDate: IssueDateKey = DEFAULT_ISSUE_DATE,
+  excludedYears: number[] = []
+) => {
+  const baselineData = data.filter(d => d.water_year >= baseline.start && d.water_year <= baseline.end);
+  const { sweColumn, precipColumn } = ISSUE_DATES[issueDate];
+
+  const means = {
+    swe: baselineData.reduce((sum, d) => sum + d[sweColumn], 0) / baselineData.length,
+    fallSM: baselineData.reduce((sum, d) => sum + d.fall_sm_oct_nov_avg_mm, 0) / baselineData.length,
+    springPrecip: baselineData.reduce((sum, d) => sum + d[precipColumn], 0) / baselineData.length,
+    streamflow: baselineData.reduce((sum, d) => sum + d.total_streamflow_mm, 0) / baselineData.length,
+    aprJul: baselineData.reduce((sum, d) => sum + d.key_streamflow_apr_jul_mm, 0) / baselineData.length,
+    inflow: baselineData.reduce((sum, d) => sum + d.inflow_MAF, 0) / baselineData.length
+  };
+
+  const processedData = data.map(d => ({
+    year: d.water_year,
+    swe_mm: d[sweColumn],
+    fallSM_mm: d.fall_sm_oct_nov_avg_mm,
+    springPrecip_mm: d[precipColumn],
+    streamflow_mm: d.total_streamflow_mm,
+    aprJul_mm: d.key_streamflow_apr_jul_mm,
+    inflow_maf: d.inflow_MAF,
+    swe_pct: (d[sweColumn] / means.swe) * 100,
+    fallSM_pct: (d.fall_sm_oct_nov_avg_mm / means.fallSM) * 100,
+    springPrecip_pct: (d[precipColumn] / means.springPrecip) * 100,
+    streamflow_pct: (d.total_streamflow_mm / means.streamflow) * 100,
+    aprJul_pct: (d.key_streamflow_apr_jul_mm / means.aprJul) * 100,
+    inflow_pct: (d.inflow_MAF / means.inflow) * 100,
+    // Excluded years stay in the baseline, ranges and charts but are left out of model training
+    included: !excludedYears.includes(d.water_year)
+  }));
+
+  const ranges = {
+    swe_pct: {
+      min: Math.min(...processedData.map(d => d.swe_pct)),
+      max: Math.max(...processedData.map(d => d.swe_pct)),
+      mean: 100
+    },
+    fallSM_pct: {
+      min: Math.min(...processedData.map(d => d.fallSM_pct)),
+      max: Math.max(...processedData.map(d => d.fallSM_pct)),
+      mean: 100
+    },
+    springPrecip_pct: {
+      min: Math.min(...processedData.map(d => d.springPrecip_pct)),
+      max: Math.max(...processedData.map(d => d.springPrecip_pct)),
+      mean: 100
+    },
+    streamflow_pct: {
+      min: Math.min(...processedData.map(d => d.streamflow_pct)),
+      max: Math.max(...processedData.map(d => d.streamflow_pct)),
+      mean: 100
+    },
+    aprJul_pct: {
+      min: Math.min(...processedData.map(d => d.aprJul_pct)),
+      max: Math.max(...processedData.map(d => d.aprJul_pct)),
+      mean: 100
+    },
+    inflow_pct: {
+      min: Math.min(...processedData.map(d => d.inflow_pct)),
+      max: Math.max(...processedData.map(d => d.inflow_pct)),
+      mean: 100
+    }
+  };
+
+  const histograms = {
+    swe: createHistogram(processedData.map(d => d.swe_pct)),
+    fallSM: createHistogram(processedData.map(d => d.fallSM_pct)),
+    springPrecip: createHistogram(processedData.map(d => d.springPrecip_pct)),
+    streamflow: createHistogram(processedData.map(d => d.streamflow_pct)),
+    aprJul: createHistogram(processedData.map(d => d.aprJul_pct)),
+    inflow: createHistogram(processedData.map(d => d.inflow_pct))
+  };
+
+  const availableTargets = (Object.keys(FORECAST_TARGETS) as TargetKey[])
+    .filter(key => data.every(d => Number.isFinite(d[FORECAST_TARGETS[key].column])));
+  
+  return {
+    years: processedData,
+    means: means,
+    ranges: ranges,
+    histograms: histograms,
+    availableTargets: availableTargets,
+    issueDate: issueDate,
+    availableIssueDates: availableIssueDates(data),
+    baseline: { ...baseline, years: baselineData.length }
+  };
+};
+
+// Water years the models are trained on
+export const trainingYears = (years) => years.filter(y => y.included !== false);
+
+// Predictor values (% of baseline average) for one water year, in the order the model forms expect
+const predictorPcts = (y) => [y.swe_pct, y.fallSM_pct, y.springPrecip_pct];
+
+const anomalies = (pcts) => pcts.map(v => v - 100);
+
+// Streamflow can't go below zero, so reported forecasts and interval bounds are floored at 0% of average.
+// Fitted values and residuals stay on the unclamped scale so the diagnostics see the model as fitted.
+const nonNegative = (pct) => Math.max(0, pct);
+
+interface ModelFormSpec {
+  label: string;
+  terms: string[];
+  features: (pcts: number[]) => number[];
+  toResponse: (pct: number) => number;
+  fromResponse: (v: number) => number;
+  equation: (intercept: boolean) => string;
+  local?: boolean;
+  span?: number;
+}
+
+// Selectable model forms. Parametric forms map predictor percentages to regression features and the
+// target percentage to a response scale (and back); the local form refits around each scenario.
+export const MODEL_FORMS: Record<'linear' | 'interaction' | 'log' | 'loess', ModelFormSpec> = {
+  linear: {
+    label: 'Linear additive',
+    terms: ['SWE', 'Fall SM', 'Spring Precip'],
+    features: anomalies,
+    toResponse: (pct) => pct - 100,
+    fromResponse: (v) => 100 + v,
+    equation: (intercept) =>
+      `Target% = 100 + ${intercept ? 'β₀ + ' : ''}β₁×(SWE% - 100) + β₂×(FallSM% - 100) + β₃×(SpringPrecip% - 100)`
+  },
+  interaction: {
+    label: 'Linear + SWE×Fall SM interaction',
+    terms: ['SWE', 'Fall SM', 'Spring Precip', 'SWE × Fall SM'],
+    features: (pcts) => {
+      const [swe, fallSM, spring] = anomalies(pcts);
+      return [swe, fallSM, spring, (swe * fallSM) / 100];
+    },
+    toResponse: (pct) => pct - 100,
+    fromResponse: (v) => 100 + v,
+    equation: (intercept) =>
+      `Target% = 100 + ${intercept ? 'β₀ + ' : ''}β₁×(SWE% - 100) + β₂×(FallSM% - 100) + β₃×(SpringPrecip% - 100) + β₄×(SWE% - 100)×(FallSM% - 100)/100`
+  },
+  log: {
+    label: 'Log-space (multiplicative)',
+    terms: ['ln SWE', 'ln Fall SM', 'ln Spring Precip'],
+    features: (pcts) => pcts.map(v => Math.log(v / 100)),
+    toResponse: (pct) => Math.log(pct / 100),
+    fromResponse: (v) => 100 * Math.exp(v),
+    equation: (intercept) =>
+      `ln(Target%/100) = ${intercept ? 'β₀ + ' : ''}β₁×ln(SWE%/100) + β₂×ln(FallSM%/100) + β₃×ln(SpringPrecip%/100)`
+  },
+  loess: {
+    label: 'Locally weighted (LOESS)',
+    terms: [],
+    local: true,
+    span: 0.75,
+    features: anomalies,
+    toResponse: (pct) => pct - 100,
+    fromResponse: (v) => 100 + v,
+    equation: () =>
+      'Target% = 100 + local linear fit around the scenario, weighting the nearest 75% of water years by tricube distance in standardized predictor space'
+  }
+};
+
+// Fit one of MODEL_FORMS to the water years. Returns the OLS statistics (parametric forms only) and a
+// predict() that gives the target as % of average with prediction intervals at INTERVAL_LEVELS, the
+// unclamped prediction on the form's response scale and its standard error of prediction.
+export const fitModel = (form, years, { intercept = true, target = FORECAST_TARGETS.annual, skipVif = false } = {}) => {
+  const spec = MODEL_FORMS[form];
+  const X = years.map(y => spec.features(predictorPcts(y)));
+  const Y = years.map(y => spec.toResponse(y[target.pctKey]));
+  
+  if (!spec.local) {
+    const fit = fitOLS(X, Y, { intercept, skipVif });
+    if (!fit) return null;
+    const intervalsAt = predictionIntervals(fit);
+    const predict = (pcts) => {
+      const x0 = spec.features(pcts);
+      const mean = fit.intercept + x0.reduce((sum, x, j) => sum + x * fit.beta[j], 0);
+      const bands = intervalsAt(x0);
+      return {
+        pct: nonNegative(spec.fromResponse(mean)),
+        response: mean,
+        se: bands[0].se,
+        intervals: bands.map(({ level, halfWidth }) => ({
+          level,
+          lowPct: nonNegative(spec.fromResponse(mean - halfWidth)),
+          highPct: nonNegative(spec.fromResponse(mean + halfWidth))
+        }))
+      };
+    };
+    return { form, fit, predict, fitted: fit.fitted.map(spec.fromResponse) };
+  }
+  
+  // LOESS: scale distances by each predictor's standard deviation so no predictor dominates
+  const sd = X[0].map((_, j) => {
+    const col = X.map(row => row[j]);
+    const m = col.reduce((sum, v) => sum + v, 0) / col.length;
+    return Math.sqrt(col.reduce((sum, v) => sum + (v - m) ** 2, 0) / (col.length - 1)) || 1;
+  });
+  const neighbours = Math.max(X[0].length + 2, Math.ceil(spec.span * X.length));
+  const localMean = (x0, exclude = -1) => {
+    const rows = X.map((row, i) => ({ row, y: Y[i], i })).filter(r => r.i !== exclude);
+    const dist = rows.map(r => Math.sqrt(r.row.reduce((sum, v, j) => sum + ((v - x0[j]) / sd[j]) ** 2, 0)));
+    const h = [...dist].sort((p, q) => p - q)[Math.min(neighbours, rows.length) - 1] * 1.0001 || 1;
+    const weights = dist.map(d => (d < h ? (1 - (d / h) ** 3) ** 3 : 0));
+    const local = fitOLS(rows.map(r => r.row.map((v, j) => v - x0[j])), rows.map(r => r.y), { intercept: true, skipVif: true, weights });
+    return local ? local.intercept : NaN;
+  };
+  
+  // Interval width comes from leave-one-out residuals, computed once on first use
+  let residualScale = null;
+  const getResidualScale = () => {
+    if (residualScale === null) {
+      const errors = X.map((row, i) => Y[i] - localMean(row, i)).filter(Number.isFinite);
+      residualScale = Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length);
+    }
+    return residualScale;
+  };
+  const quantiles = INTERVAL_LEVELS.map(level => studentTQuantile(0.5 + level / 2, X.length - X[0].length - 1));
+  const predict = (pcts) => {
+    const mean = localMean(spec.features(pcts));
+    return {
+      pct: nonNegative(spec.fromResponse(mean)),
+      response: mean,
+      se: getResidualScale(),
+      intervals: INTERVAL_LEVELS.map((level, i) => {
+        const halfWidth = quantiles[i] * getResidualScale();
+        return {
+          level,
+          lowPct: nonNegative(spec.fromResponse(mean - halfWidth)),
+          highPct: nonNegative(spec.fromResponse(mean + halfWidth))
+        };
+      })
+    };
+  };
+  return { form, fit: null, predict, fitted: X.map(row => spec.fromResponse(localMean(row))) };
+};
+
+// Refit the model with each water year withheld in turn and predict the withheld year
+export const leaveOneOutHindcast = (years, { intercept = true, target = FORECAST_TARGETS.annual, form = 'linear' } = {}) => {
+  return years.map((held, i) => {
+    const model = fitModel(form, years.filter((_, j) => j !== i), { intercept, target, skipVif: true });
+    return {
+      year: held.year,
+      observed: held[target.pctKey],
+      // Unclamped, so skill scores judge the fitted model rather than the zero floor
+      hindcast: model ? MODEL_FORMS[form].fromResponse(model.predict(predictorPcts(held)).response) : NaN
+    };
+  });
+};
+
+// Rule-of-thumb cutoffs for flagging influential years (n training years, p fitted coefficients)
+export const INFLUENCE_THRESHOLDS = {
+  cooksDistance: (n) => 4 / n,
+  leverage: (n, p) => (2 * p) / n,
+  standardizedResidual: 2
+};
+
+// Leverage, internally standardized residual and Cook's distance of each training year of a parametric
+// model (on the form's response scale). The locally weighted form has no single fit and returns [].
+export const influenceDiagnostics = (model, years) => {
+  const fit = model?.fit;
+  if (!fit) return [];
+  const p = fit.n - fit.df;
+  const cutoffs = {
+    cooksDistance: INFLUENCE_THRESHOLDS.cooksDistance(fit.n),
+    leverage: INFLUENCE_THRESHOLDS.leverage(fit.n, p),
+    standardizedResidual: INFLUENCE_THRESHOLDS.standardizedResidual
+  };
+  return trainingYears(years).map((y, i) => {
+    const h = fit.leverage[i];
+    const standardizedResidual = h < 1 ? fit.residuals[i] / (fit.rse * Math.sqrt(1 - h)) : NaN;
+    const cooksDistance = h < 1 ? (standardizedResidual ** 2 * h) / (p * (1 - h)) : NaN;
+    const flags = [
+      ...(cooksDistance > cutoffs.cooksDistance ? ['cooks'] : []),
+      ...(h > cutoffs.leverage ? ['leverage'] : []),
+      ...(Math.abs(standardizedResidual) > cutoffs.standardizedResidual ? ['residual'] : [])
+    ];
+    return { year: y.year, leverage: h, standardizedResidual, cooksDistance, flags, cutoffs };
+  });
+};
+
+// Leave-one-out skill (in % of average) of one model configuration at each issue date the cleaned rows
+// support, in calendar order, to show how the forecast sharpens as the season progresses
+export const seasonalSkill = (
+  rows,
+  baseline = DEFAULT_BASELINE,
+  { intercept = true, target = FORECAST_TARGETS.annual, form = 'linear', excludedYears = [] } = {}
+) => {
+  const available = availableIssueDates(rows);
+  return (Object.keys(ISSUE_DATES) as IssueDateKey[])
+    .filter(key => available.includes(key))
+    .map(key => {
+      const { years } = processDataset(rows, baseline, key, excludedYears);
+      const results = leaveOneOutHindcast(trainingYears(years), { intercept, target, form });
+      return { issueDate: key, ...skillScores(results.map(r => r.observed), results.map(r => r.hindcast)) };
+    });
+};
+
+export const PREDICTOR_KEYS = ['swe', 'fallSM', 'springPrecip'];
+
+// k nearest historical years to a scenario under a weighted, standardized Euclidean distance over the
+// predictors, with an inverse-distance-weighted ensemble of the analogs' target values.
+export const findAnalogs = (years, scenarioPcts, { k = 5, weights = { swe: 1, fallSM: 1, springPrecip: 1 }, target = FORECAST_TARGETS.annual } = {}) => {
+  const columns = years.map(predictorPcts);
+  const sd = PREDICTOR_KEYS.map((_, j) => {
+    const col = columns.map(row => row[j]);
+    const m = col.reduce((sum, v) => sum + v, 0) / col.length;
+    return Math.sqrt(col.reduce((sum, v) => sum + (v - m) ** 2, 0) / (col.length - 1)) || 1;
+  });
+  
+  const ranked = years
+    .map((y, i) => ({
+      ...y,
+      distance: Math.sqrt(PREDICTOR_KEYS.reduce(
+        (sum, key, j) => sum + weights[key] * ((columns[i][j] - scenarioPcts[j]) / sd[j]) ** 2, 0
+      ))
+    }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, Math.min(k, years.length));
+  
+  // A small floor keeps an exact match from taking all of the weight
+  const raw = ranked.map(y => 1 / Math.max(y.distance, 0.05));
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  const analogs = ranked.map((y, i) => ({ ...y, weight: raw[i] / total }));
+  
+  const mean = analogs.reduce((sum, y) => sum + y.weight * y[target.pctKey], 0);
+  const variance = analogs.reduce((sum, y) => sum + y.weight * (y[target.pctKey] - mean) ** 2, 0);
+  return {
+    analogs,
+    mean,
+    sd: Math.sqrt(variance),
+    min: Math.min(...analogs.map(y => y[target.pctKey])),
+    max: Math.max(...analogs.map(y => y[target.pctKey]))
+  };
+};
+
+// Effect of each predictor on the forecast in percentage points of the target's average: the forecast
+// minus the forecast with that predictor at its baseline average. For the linear form this is β × anomaly.
+export const predictorContributions = (model, pcts) => {
+  const full = model.predict(pcts).pct;
+  return Object.fromEntries(PREDICTOR_KEYS.map((key, j) => {
+    const atAverage = pcts.map((p, i) => (i === j ? 100 : p));
+    return [key, full - model.predict(atAverage).pct];
+  }));
+};
+
+const predictorRange = (years, key) => {
+  const values = years.map(y => y[`${key}_pct`]);
+  return { min: Math.min(...values), max: Math.max(...values) };
+};
+
+// Forecast at each end of a predictor's historical range with the others held at the scenario, largest swing first
+export const tornadoSensitivity = (model, years, pcts) => PREDICTOR_KEYS
+  .map((key, j) => {
+    const range = predictorRange(years, key);
+    const at = (v) => model.predict(pcts.map((p, i) => (i === j ? v : p))).pct;
+    const atMin = at(range.min);
+    const atMax = at(range.max);
+    return { key, ...range, atMin, atMax, swing: Math.abs(atMax - atMin) };
+  })
+  .sort((a, b) => b.swing - a.swing);
+
+// Forecast on a steps × steps grid of cell centres spanning the historical ranges of two predictors,
+// with the remaining predictor held at the scenario value
+export const responseSurface = (model, years, pcts, axes, steps = 20) => {
+  const [xKey, yKey] = axes;
+  const xj = PREDICTOR_KEYS.indexOf(xKey);
+  const yj = PREDICTOR_KEYS.indexOf(yKey);
+  const xRange = predictorRange(years, xKey);
+  const yRange = predictorRange(years, yKey);
+  const cells = [];
+  for (let yi = 0; yi < steps; yi++) {
+    for (let xi = 0; xi < steps; xi++) {
+      const x = xRange.min + ((xi + 0.5) / steps) * (xRange.max - xRange.min);
+      const y = yRange.min + ((yi + 0.5) / steps) * (yRange.max - yRange.min);
+      const point = [...pcts];
+      point[xj] = x;
+      point[yj] = y;
+      cells.push({ xi, yi, x, y, pct: model.predict(point).pct });
+    }
+  }
+  const finite = cells.map(c => c.pct).filter(Number.isFinite);
+  return { xKey, yKey, xRange, yRange, steps, cells, min: Math.min(...finite), max: Math.max(...finite) };
+};
+
+export const ESP_EXCEEDANCE_LEVELS = [0.1, 0.3, 0.5, 0.7, 0.9];
+
+// Ensemble Streamflow Prediction: the known April 1 states are held fixed and the model is run once
+// per historical spring precipitation. Traces are ranked wettest first with Weibull plotting
+// positions i / (n + 1) as exceedance probabilities.
+export const espEnsemble = (model, years, [swePct, fallSMPct]) => {
+  const traces = years
+    .map(y => ({
+      year: y.year,
+      springPrecipPct: y.springPrecip_pct,
+      pct: model.predict([swePct, fallSMPct, y.springPrecip_pct]).pct
+    }))
+    .filter(t => Number.isFinite(t.pct))
+    .sort((a, b) => b.pct - a.pct)
+    .map((t, i, all) => ({ ...t, exceedance: (i + 1) / (all.length + 1) }));
+  
+  // Linear interpolation between plotting positions, held at the extreme traces beyond them
+  const valueAt = (p) => {
+    if (p <= traces[0].exceedance) return traces[0].pct;
+    const last = traces[traces.length - 1];
+    if (p >= last.exceedance) return last.pct;
+    const i = traces.findIndex(t => t.exceedance >= p);
+    const lo = traces[i - 1], hi = traces[i];
+    return lo.pct + ((p - lo.exceedance) / (hi.exceedance - lo.exceedance)) * (hi.pct - lo.pct);
+  };
+  
+  return {
+    traces,
+    exceedance: ESP_EXCEEDANCE_LEVELS.map(level => ({ level, pct: valueAt(level) }))
+  };
+};
+
+// Distributions an input's observational error can take; sigma is always the standard deviation in
+// percentage points of average
+export const INPUT_DISTRIBUTIONS = {
+  normal: { label: 'Normal' },
+  uniform: { label: 'Uniform' },
+  lognormal: { label: 'Lognormal' }
+};
+
+export const MONTE_CARLO_PERCENTILES = [0.05, 0.1, 0.25, 0.5, 0.75, 0.9, 0.95];
+
+// Seeded uniform generator (mulberry32), so the same scenario gives the same sample on every run
+const seededRandom = (seed) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = Math.imul(a ^ (a >>> 15), a | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Box-Muller transform
+const standardNormal = (random) => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+// One draw of an input (% of average) with the given mean and standard deviation. Normal and uniform
+// draws are floored at zero; the lognormal matches the mean and standard deviation on the original scale,
+// and has all its mass at zero when the mean is zero (it has no log to take).
+const sampleInput = (random, mean, { distribution = 'normal', sigma = 0 } = {}) => {
+  if (!(sigma > 0)) return mean;
+  if (distribution === 'uniform') return Math.max(0, mean + (2 * random() - 1) * Math.sqrt(3) * sigma);
+  if (distribution === 'lognormal') {
+    if (!(mean > 0)) return 0;
+    const s2 = Math.log(1 + (sigma / mean) ** 2);
+    return Math.exp(Math.log(mean) - s2 / 2 + Math.sqrt(s2) * standardNormal(random));
+  }
+  return Math.max(0, mean + sigma * standardNormal(random));
+};
+
+// Monte Carlo forecast distribution. Each draw samples the inputs from their uncertainty (one entry per
+// predictor, in model order) and, with residual, adds normal model error with the prediction's standard
+// error to the unclamped response; the zero floor is applied once, to the finished draw. Returns the
+// sorted draws in % of average with summary statistics.
+export const monteCarloEnsemble = (model, pcts, { uncertainty = [], residual = true, samples = 2000, seed = 1 } = {}) => {
+  const spec = MODEL_FORMS[model.form];
+  const random = seededRandom(seed);
+  const draws = [];
+  for (let i = 0; i < samples; i++) {
+    const prediction = model.predict(pcts.map((p, j) => sampleInput(random, p, uncertainty[j])));
+    const response = residual ? prediction.response + prediction.se * standardNormal(random) : prediction.response;
+    const pct = nonNegative(spec.fromResponse(response));
+    if (Number.isFinite(pct)) draws.push(pct);
+  }
+  draws.sort((a, b) => a - b);
+  
+  const quantile = (p) => {
+    const h = (draws.length - 1) * p;
+    const lo = Math.floor(h);
+    const hi = Math.min(lo + 1, draws.length - 1);
+    return draws[lo] + (h - lo) * (draws[hi] - draws[lo]);
+  };
+  const mean = draws.reduce((sum, v) => sum + v, 0) / draws.length;
+  return {
+    draws,
+    mean,
+    sd: Math.sqrt(draws.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (draws.length - 1)),
+    percentiles: MONTE_CARLO_PERCENTILES.map(level => ({ level, pct: quantile(level) })),
+    histogram: createHistogram(draws, 30),
+    probabilityBelow: (pct) => draws.filter(v => v < pct).length / draws.length
+  };
+};
+
+// Ways of turning the predictors into event probabilities
+export const PROBABILITY_METHODS = {
+  residual: { label: 'Model residual distribution' },
+  logistic: { label: 'Logistic regression' }
+};
+
+export const TERCILE_CATEGORIES = [
+  { key: 'below', label: 'Below normal' },
+  { key: 'near', label: 'Near normal' },
+  { key: 'above', label: 'Above normal' }
+];
+
+// Tercile boundaries (% of average) of the target over the baseline water years, the normal the
+// categories are defined against
+export const targetTerciles = (years, baseline, target = FORECAST_TARGETS.annual) => {
+  const values = years
+    .filter(y => y.year >= baseline.start && y.year <= baseline.end)
+    .map(y => y[target.pctKey])
+    .sort((a, b) => a - b);
+  const quantile = (p) => {
+    const h = (values.length - 1) * p;
+    const lo = Math.floor(h);
+    return values[lo] + (h - lo) * (values[Math.min(lo + 1, values.length - 1)] - values[lo]);
+  };
+  return { lower: quantile(1 / 3), upper: quantile(2 / 3) };
+};
+
+// Ridge-penalised logistic regression by Newton-Raphson on standardized features. The small penalty keeps
+// the fit finite when an event separates the years perfectly; the intercept is not penalised.
+const fitLogistic = (X, outcomes, { ridge = 1, iterations = 50 } = {}) => {
+  const n = X.length;
+  const k = X[0].length;
+  const events = outcomes.reduce((sum, o) => sum + o, 0);
+  if (events === 0 || events === n) {
+    const rate = (events + 0.5) / (n + 1);
+    return () => rate;
+  }
+  const center = X[0].map((_, j) => X.reduce((sum, row) => sum + row[j], 0) / n);
+  const scale = X[0].map((_, j) => Math.sqrt(X.reduce((sum, row) => sum + (row[j] - center[j]) ** 2, 0) / (n - 1)) || 1);
+  const design = X.map(row => [1, ...row.map((v, j) => (v - center[j]) / scale[j])]);
+  let coef = new Array(k + 1).fill(0);
+  for (let iter = 0; iter < iterations; iter++) {
+    const probs = design.map(row => 1 / (1 + Math.exp(-row.reduce((sum, v, j) => sum + v * coef[j], 0))));
+    const gradient = coef.map((b, j) => design.reduce((sum, row, r) => sum + row[j] * (outcomes[r] - probs[r]), 0) - (j > 0 ? ridge * b : 0));
+    const hessian = coef.map((_, i) => coef.map((_, j) =>
+      design.reduce((sum, row, r) => sum + row[i] * row[j] * probs[r] * (1 - probs[r]), 0) + (i === j && i > 0 ? ridge : 0)));
+    const inverse = invertMatrix(hessian);
+    if (!inverse) break;
+    const step = inverse.map(row => row.reduce((sum, v, j) => sum + v * gradient[j], 0));
+    coef = coef.map((b, j) => b + step[j]);
+    if (Math.max(...step.map(Math.abs)) < 1e-8) break;
+  }
+  return (x0) => 1 / (1 + Math.exp(-[1, ...x0.map((v, j) => (v - center[j]) / scale[j])].reduce((sum, v, j) => sum + v * coef[j], 0)));
+};
+
+// Fits what is needed to give P(target < threshold) for each threshold (% of average) from the predictors.
+// The residual method reads the fitted model's Student-t predictive distribution on the form's response
+// scale; the logistic method fits one logistic regression per threshold on the predictor anomalies.
+// Probabilities are made non-decreasing in the threshold. Returns null when the model cannot be fitted.
+export const exceedanceModel = (years, thresholds, { method = 'residual', form = 'linear', intercept = true, target = FORECAST_TARGETS.annual } = {}) => {
+  let below;
+  if (method === 'logistic') {
+    const X = years.map(y => anomalies(predictorPcts(y)));
+    const fits = thresholds.map(t => fitLogistic(X, years.map(y => (y[target.pctKey] < t ? 1 : 0))));
+    below = (pcts) => fits.map(f => f(anomalies(pcts)));
+  } else {
+    const model = fitModel(form, years, { intercept, target, skipVif: true });
+    if (!model) return null;
+    const spec = MODEL_FORMS[form];
+    const df = model.fit ? model.fit.df : years.length - PREDICTOR_KEYS.length - 1;
+    below = (pcts) => {
+      const { response, se } = model.predict(pcts);
+      return thresholds.map(t => (t <= 0 ? 0 : studentTCdf((spec.toResponse(t) - response) / se, df)));
+    };
+  }
+  const order = thresholds.map((t, i) => i).sort((a, b) => thresholds[a] - thresholds[b]);
+  return (pcts) => {
+    const raw = below(pcts);
+    const monotone = [...raw];
+    let floor = 0;
+    order.forEach(i => {
+      floor = Math.max(raw[i], floor);
+      monotone[i] = floor;
+    });
+    return monotone;
+  };
+};
+
+// Below/near/above-normal probabilities from P(below lower tercile) and P(below upper tercile)
+const tercileProbabilities = ([belowLower, belowUpper]) => ({
+  below: belowLower,
+  near: belowUpper - belowLower,
+  above: 1 - belowUpper
+});
+
+export const RELIABILITY_BINS = 5;
+
+// Reliability of the tercile and threshold probabilities over the water years: each year's probabilities
+// come from a model fitted without it, and are binned against how often the event then happened.
+// Brier skill is relative to always forecasting the event's historical frequency.
+export const probabilityReliability = (
+  years,
+  terciles,
+  thresholds = [],
+  { method = 'residual', form = 'linear', intercept = true, target = FORECAST_TARGETS.annual } = {}
+) => {
+  const cutoffs = [terciles.lower, terciles.upper, ...thresholds];
+  const forecasts = years.map((held, i) => {
+    const model = exceedanceModel(years.filter((_, j) => j !== i), cutoffs, { method, form, intercept, target });
+    return model ? model(predictorPcts(held)) : null;
+  });
+  const observed = years.map(y => y[target.pctKey]);
+  
+  const events = [
+    ...TERCILE_CATEGORIES.map(({ key, label }) => ({
+      key,
+      label,
+      pairs: years.map((_, i) => ({
+        p: forecasts[i] ? tercileProbabilities(forecasts[i])[key] : NaN,
+        o: key === 'below' ? observed[i] < terciles.lower : key === 'above' ? observed[i] >= terciles.upper
+          : observed[i] >= terciles.lower && observed[i] < terciles.upper
+      }))
+    })),
+    ...(thresholds.length > 0
+      ? [{
+          key: 'thresholds',
+          label: 'Below thresholds',
+          pairs: thresholds.flatMap((t, k) => years.map((_, i) => ({ p: forecasts[i] ? forecasts[i][k + 2] : NaN, o: observed[i] < t })))
+        }]
+      : [])
+  ];
+  
+  return events.map(({ key, label, pairs }) => {
+    const valid = pairs.filter(pair => Number.isFinite(pair.p)).map(({ p, o }) => ({ p, o: o ? 1 : 0 }));
+    const baseRate = valid.reduce((sum, pair) => sum + pair.o, 0) / valid.length;
+    const brier = valid.reduce((sum, { p, o }) => sum + (p - o) ** 2, 0) / valid.length;
+    const climatology = valid.reduce((sum, { o }) => sum + (baseRate - o) ** 2, 0) / valid.length;
+    const bins = Array.from({ length: RELIABILITY_BINS }, (_, b) => {
+      const binStart = b / RELIABILITY_BINS;
+      const binEnd = (b + 1) / RELIABILITY_BINS;
+      const members = valid.filter(({ p }) => p >= binStart && (p < binEnd || (b === RELIABILITY_BINS - 1 && p <= binEnd)));
+      return {
+        binStart,
+        binEnd,
+        count: members.length,
+        meanForecast: members.length > 0 ? members.reduce((sum, { p }) => sum + p, 0) / members.length : NaN,
+        observedFrequency: members.length > 0 ? members.reduce((sum, { o }) => sum + o, 0) / members.length : NaN
+      };
+    });
+    return {
+      key,
+      label,
+      n: valid.length,
+      baseRate,
+      brier,
+      brierSkill: climatology > 0 ? 1 - brier / climatology : NaN,
+      bins
+    };
+  });
+};
+
+// Standard normal CDF via the Abramowitz-Stegun erf approximation (7.1.26)
+const normalCdf = (z) => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+};
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Mann-Kendall test for a monotonic trend, with the variance correction for tied values
+export const mannKendall = (values) => {
+  const n = values.length;
+  let s = 0;
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) s += Math.sign(values[j] - values[i]);
+  }
+  const tieCounts = new Map();
+  values.forEach(v => tieCounts.set(v, (tieCounts.get(v) || 0) + 1));
+  const tieCorrection = [...tieCounts.values()].reduce((sum, t) => sum + t * (t - 1) * (2 * t + 5), 0);
+  const variance = (n * (n - 1) * (2 * n + 5) - tieCorrection) / 18;
+  const z = s > 0 ? (s - 1) / Math.sqrt(variance) : s < 0 ? (s + 1) / Math.sqrt(variance) : 0;
+  return {
+    s,
+    z,
+    tau: s / (n * (n - 1) / 2),
+    pValue: 2 * (1 - normalCdf(Math.abs(z)))
+  };
+};
+
+// Theil-Sen estimator: median of all pairwise slopes, intercept as the median residual
+export const sensSlope = (times, values) => {
+  const slopes = [];
+  for (let i = 0; i < times.length - 1; i++) {
+    for (let j = i + 1; j < times.length; j++) {
+      if (times[j] !== times[i]) slopes.push((values[j] - values[i]) / (times[j] - times[i]));
+    }
+  }
+  const slope = median(slopes);
+  return { slope, intercept: median(values.map((v, i) => v - slope * times[i])) };
+};
+
+// Centred moving average; null where the window would run off either end of the record
+export const movingAverage = (values, window) => {
+  const half = Math.floor(window / 2);
+  return values.map((_, i) => {
+    if (i - half < 0 || i - half + window > values.length) return null;
+    const slice = values.slice(i - half, i - half + window);
+    return slice.reduce((sum, v) => sum + v, 0) / window;
+  });
+};
+
+// RMSE, mean bias, Nash-Sutcliffe efficiency and Pearson correlation of predictions against observations
+export const skillScores = (observed, predicted) => {
+  const n = observed.length;
+  const obsMean = observed.reduce((sum, v) => sum + v, 0) / n;
+  const predMean = predicted.reduce((sum, v) => sum + v, 0) / n;
+  let sse = 0, sst = 0, cov = 0, varObs = 0, varPred = 0;
+  for (let i = 0; i < n; i++) {
+    const err = predicted[i] - observed[i];
+    sse += err * err;
+    sst += (observed[i] - obsMean) ** 2;
+    cov += (observed[i] - obsMean) * (predicted[i] - predMean);
+    varObs += (observed[i] - obsMean) ** 2;
+    varPred += (predicted[i] - predMean) ** 2;
+  }
+  return {
+    rmse: Math.sqrt(sse / n),
+    bias: predMean - obsMean,
+    nse: sst > 0 ? 1 - sse / sst : NaN,
+    r: varObs > 0 && varPred > 0 ? cov / Math.sqrt(varObs * varPred) : NaN
+  };
+};
+
+// Ways of mapping VIC-simulated flow (mm) onto the observed Lake Powell inflow (MAF)
+export const CALIBRATION_METHODS = {
+  linear: { label: 'Linear regression' },
+  quantile: { label: 'Empirical quantile mapping' }
+};
+
+// Quantile mapping: a simulated flow takes the observed inflow at the same rank, interpolated between
+// order statistics. Beyond the training range the ratio of the nearest extreme pair is kept.
+const quantileMapper = (simulated, observed) => {
+  const sim = [...simulated].sort((a, b) => a - b);
+  const obs = [...observed].sort((a, b) => a - b);
+  const last = sim.length - 1;
+  return (x) => {
+    if (x <= sim[0]) return (obs[0] * x) / sim[0];
+    if (x >= sim[last]) return (obs[last] * x) / sim[last];
+    const i = sim.findIndex(v => v >= x);
+    return obs[i - 1] + ((x - sim[i - 1]) / (sim[i] - sim[i - 1])) * (obs[i] - obs[i - 1]);
+  };
+};
+
+// The mapping itself plus, for the regression, the standard error of a new prediction at a flow
+const calibrationMapper = (method, simulated, observed) => {
+  if (method === 'quantile') return { map: quantileMapper(simulated, observed), se: null, fit: null };
+  const fit = fitOLS(simulated.map(v => [v]), observed, { skipVif: true });
+  if (!fit) return null;
+  const intervalsAt = predictionIntervals(fit);
+  // Inflow can't be negative, even where the regression line crosses zero for very dry flows
+  return { map: (v) => Math.max(0, fit.intercept + fit.beta[0] * v), se: (v) => intervalsAt([v])[0].se, fit };
+};
+
+// Calibrate a VIC flow target (annual or April-July, mm) against observed inflow_MAF over the given
+// water years. Error statistics are in MAF, in-sample and leave-one-out. correct() turns a forecast of
+// the flow target into a bias-corrected inflow: forecast and mapping errors are taken as independent
+// and added in quadrature on each side of the mapped interval, with the lower bound floored at zero.
+export const flowCalibration = (years, { method = 'linear', source = FORECAST_TARGETS.annual } = {}) => {
+  const rows = years.filter(y => Number.isFinite(y[source.valueKey]) && Number.isFinite(y.inflow_maf));
+  if (rows.length < 3) return null;
+  const simulated = rows.map(y => y[source.valueKey]);
+  const observed = rows.map(y => y.inflow_maf);
+  const mapper = calibrationMapper(method, simulated, observed);
+  if (!mapper) return null;
+  
+  const fitted = simulated.map(mapper.map);
+  const heldOut = rows.map((_, i) => {
+    const others = (values) => values.filter((_, j) => j !== i);
+    const loo = calibrationMapper(method, others(simulated), others(observed));
+    return loo ? loo.map(simulated[i]) : NaN;
+  });
+  const inSample = skillScores(observed, fitted);
+  const crossValidated = skillScores(observed, heldOut);
+  // Quantile mapping has no sampling theory, so its error is the leave-one-out RMSE everywhere
+  const mappingSe = mapper.se ?? (() => crossValidated.rmse);
+  const quantiles = Object.fromEntries(INTERVAL_LEVELS.map(level => [level, studentTQuantile(0.5 + level / 2, rows.length - 2)]));
+  
+  return {
+    method,
+    n: rows.length,
+    coefficients: mapper.fit ? { intercept: mapper.fit.intercept, slope: mapper.fit.beta[0], r2: mapper.fit.r2 } : null,
+    points: rows.map((y, i) => ({ year: y.year, simulated: simulated[i], observed: observed[i], corrected: fitted[i], heldOut: heldOut[i] })),
+    inSample,
+    crossValidated,
+    apply: mapper.map,
+    correct: (value, intervals = []) => {
+      const center = mapper.map(value);
+      return {
+        valueMAF: center,
+        intervals: intervals.map(({ level, lowValue, highValue }) => {
+          const spread = (quantiles[level] ?? studentTQuantile(0.5 + level / 2, rows.length - 2)) * mappingSe(value);
+          return {
+            level,
+            lowMAF: Math.max(0, center - Math.hypot(center - mapper.map(lowValue), spread)),
+            highMAF: center + Math.hypot(mapper.map(highValue) - center, spread)
+          };
+        })
+      };
+    }
+  };
+};
+
+// Ordinary least squares fit of Y on the columns of X, optionally with an intercept.
+// Returns coefficients together with the usual inference statistics.
+export const fitOLS = (X, Y, { intercept = true, skipVif = false, weights = null } = {}) => {
+  const n = Y.length;
+  const k = X[0]?.length ?? 0;
+  // Weighted least squares is solved as OLS on rows scaled by √w
+  const sqrtW = weights ? weights.map(w => Math.sqrt(w)) : null;
+  const design = X.map((row, r) => {
+    const d = intercept ? [1, ...row] : [...row];
+    return sqrtW ? d.map(v => v * sqrtW[r]) : d;
+  });
+  if (sqrtW) Y = Y.map((y, r) => y * sqrtW[r]);
+  const p = design[0]?.length ?? 0;
+  const df = n - p;
+  if (p === 0 || df <= 0) return null;
+
+  const XtX = Array.from({ length: p }, (_, i) =>
+    Array.from({ length: p }, (_, j) => design.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  const XtY = Array.from({ length: p }, (_, i) => design.reduce((sum, row, r) => sum + row[i] * Y[r], 0));
+  const XtXInv = invertMatrix(XtX);
+  if (!XtXInv) return null;
+
+  const coef = XtXInv.map(row => row.reduce((sum, v, j) => sum + v * XtY[j], 0));
+  const fitted = design.map(row => row.reduce((sum, v, j) => sum + v * coef[j], 0));
+  const residuals = Y.map((y, i) => y - fitted[i]);
+  // Diagonal of the hat matrix X(XᵀX)⁻¹Xᵀ
+  const leverage = design.map(row => row.reduce((sum, v, i) => sum + v * row.reduce((inner, w, j) => inner + XtXInv[i][j] * w, 0), 0));
+  const sse = residuals.reduce((sum, r) => sum + r * r, 0);
+  const yMean = Y.reduce((sum, y) => sum + y, 0) / n;
+  // Through-origin fits use the uncentered total sum of squares, as R's lm() does
+  const sst = intercept
+    ? Y.reduce((sum, y) => sum + (y - yMean) ** 2, 0)
+    : Y.reduce((sum, y) => sum + y * y, 0);
+  const r2 = sst > 0 ? 1 - sse / sst : 0;
+  const adjR2 = 1 - (1 - r2) * (n - (intercept ? 1 : 0)) / df;
+  const sigma2 = sse / df;
+  const se = XtXInv.map((row, i) => Math.sqrt(Math.max(row[i], 0) * sigma2));
+  const tStats = coef.map((b, i) => (se[i] > 0 ? b / se[i] : 0));
+  const pValues = tStats.map(t => 2 * (1 - studentTCdf(Math.abs(t), df)));
+
+  // Variance inflation factors: regress each predictor on the others (with intercept)
+  const vif = skipVif ? [] : Array.from({ length: k }, (_, j) => {
+    if (k < 2) return 1;
+    const others = X.map(row => row.filter((_, c) => c !== j));
+    const aux = fitOLS(others, X.map(row => row[j]), { intercept: true, skipVif: true });
+    return aux && aux.r2 < 1 ? 1 / (1 - aux.r2) : Infinity;
+  });
+
+  const offset = intercept ? 1 : 0;
+  return {
+    n,
+    df,
+    intercept: intercept ? coef[0] : 0,
+    beta: coef.slice(offset),
+    se,
+    tStats,
+    pValues,
+    vif,
+    r2,
+    adjR2,
+    rse: Math.sqrt(sigma2),
+    fitted,
+    residuals,
+    leverage,
+    XtXInv,
+    hasIntercept: intercept
+  };
+};
+
+// Approximate Lake Powell area-capacity table: elevation (ft), live storage above dead pool (MAF)
+// and surface area (thousand acres). Replace with Reclamation's current survey for operational use.
+export const POWELL_ELEVATION_STORAGE = [
+  { elevation: 3370, storage: 0, area: 12 },
+  { elevation: 3400, storage: 0.51, area: 22 },
+  { elevation: 3450, storage: 2.01, area: 38 },
+  { elevation: 3490, storage: 3.81, area: 52 },
+  { elevation: 3500, storage: 4.35, area: 56 },
+  { elevation: 3525, storage: 5.88, area: 66 },
+  { elevation: 3550, storage: 7.63, area: 74 },
+  { elevation: 3575, storage: 9.60, area: 84 },
+  { elevation: 3600, storage: 11.84, area: 95 },
+  { elevation: 3625, storage: 14.36, area: 107 },
+  { elevation: 3650, storage: 17.20, area: 120 },
+  { elevation: 3675, storage: 20.39, area: 135 },
+  { elevation: 3700, storage: 23.97, area: 152 }
+];
+
+// Net annual evaporation depth (ft) applied to the mean surface area over the year
+export const POWELL_EVAPORATION_FT = 5.0;
+
+export const POWELL_THRESHOLDS = [
+  { elevation: 3700, label: 'Full pool' },
+  { elevation: 3575, label: 'Upper / Mid-Elevation tier boundary' },
+  { elevation: 3525, label: 'Lower Elevation Balancing tier' },
+  { elevation: 3490, label: 'Minimum power pool' },
+  { elevation: 3370, label: 'Dead pool' }
+];
+
+// Operating tier bands of the 2007 Interim Guidelines; the year-specific equalization line is not modelled
+export const powellOperatingTier = (elevation) => {
+  if (elevation >= 3575) return 'Upper Elevation Balancing (or Equalization)';
+  if (elevation >= 3525) return 'Mid-Elevation Release';
+  return 'Lower Elevation Balancing';
+};
+
+// Piecewise-linear lookup in POWELL_ELEVATION_STORAGE, clamped to the table's ends
+const interpolatePowellTable = (fromKey, toKey, x) => {
+  const table = POWELL_ELEVATION_STORAGE;
+  if (x <= table[0][fromKey]) return table[0][toKey];
+  const last = table[table.length - 1];
+  if (x >= last[fromKey]) return last[toKey];
+  const i = table.findIndex(row => row[fromKey] >= x);
+  const lo = table[i - 1], hi = table[i];
+  return lo[toKey] + ((x - lo[fromKey]) / (hi[fromKey] - lo[fromKey])) * (hi[toKey] - lo[toKey]);
+};
+
+export const powellStorageAtElevation = (elevation) => interpolatePowellTable('elevation', 'storage', elevation);
+export const powellElevationAtStorage = (storage) => interpolatePowellTable('storage', 'elevation', storage);
+
+// End-of-water-year mass balance: storage + inflow - release - evaporation. Evaporation depends on the
+// end-of-year area, so the balance is iterated to a fixed point; storage is bounded by dead and full pool.
+export const projectPowellStorage = ({ startStorage: requestedStart, inflow, release }) => {
+  const capacity = POWELL_ELEVATION_STORAGE[POWELL_ELEVATION_STORAGE.length - 1].storage;
+  const startStorage = Math.min(Math.max(requestedStart, 0), capacity);
+  const startArea = interpolatePowellTable('storage', 'area', startStorage);
+  let endStorage = startStorage;
+  let evaporation = 0;
+  for (let iter = 0; iter < 20; iter++) {
+    const endArea = interpolatePowellTable('storage', 'area', Math.min(Math.max(endStorage, 0), capacity));
+    evaporation = (POWELL_EVAPORATION_FT * (startArea + endArea) / 2) / 1000;
+    const next = startStorage + inflow - release - evaporation;
+    if (Math.abs(next - endStorage) < 1e-6) {
+      endStorage = next;
+      break;
+    }
+    endStorage = next;
+  }
+  
+  const spill = Math.max(endStorage - capacity, 0);
+  const shortfall = Math.max(-endStorage, 0);
+  endStorage = Math.min(Math.max(endStorage, 0), capacity);
+  const startElevation = powellElevationAtStorage(startStorage);
+  const endElevation = powellElevationAtStorage(endStorage);
+  
+  const crossings = POWELL_THRESHOLDS
+    .filter(t => (startElevation > t.elevation) !== (endElevation > t.elevation))
+    .map(t => ({ ...t, direction: endElevation > t.elevation ? 'above' : 'below' }));
+  
+  return {
+    startStorage,
+    startElevation,
+    inflow,
+    release,
+    evaporation,
+    endStorage,
+    endElevation,
+    spill,
+    shortfall,
+    crossings,
+    startTier: powellOperatingTier(startElevation),
+    endTier: powellOperatingTier(endElevation)
+  };
+};
+
+export type TargetKey = keyof typeof FORECAST_TARGETS;
+export type ModelFormKey = keyof typeof MODEL_FORMS;
+export type IssueDateKey = keyof typeof ISSUE_DATES;
+export type DisplayUnitKey = keyof typeof DISPLAY_UNITS;
+
+export interface Baseline {
+  start: number;
+  end: number;
+}
+
+export type RawRow = Record<string, unknown>;
+
+// Processed dataset: normalised water years with baseline means, ranges and histograms
+export type EngineDataset = ReturnType<typeof processDataset>;
+export type WaterYear = EngineDataset['years'][number];
+
+// Predictor inputs in % of the baseline average; swe and springPrecip are the SWE and precipitation of the
+// dataset's issue date (see ISSUE_DATES)
+export interface Scenario {
+  swe: number;
+  fallSM: number;
+  springPrecip: number;
+}
+
+export interface LoadDatasetOptions {
+  // Canonical column -> file column; guessed from the header when omitted
+  mapping?: Record<string, string>;
+  baseline?: Baseline;
+  issueDate?: IssueDateKey;
+  // Basin to load from a multi-basin file; required when the file names more than one
+  basin?: string;
+  // Water years to leave out of model training
+  exclude?: number[];
+  // Issue id -> handling; issues not listed get their default (first) action
+  qualityActions?: Record<string, IssueAction>;
+}
+
+export type IssueAction = 'exclude' | 'interpolate' | 'keep' | 'block';
+
+export interface DataIssue {
+  id: string;
+  kind: 'invalid-year' | 'duplicate-year' | 'missing' | 'non-numeric' | 'negative' | 'outlier' | 'missing-year';
+  severity: 'error' | 'warning';
+  row: number | null;
+  year: number | null;
+  // Basin the finding belongs to; '' for single-basin files
+  basin: string;
+  column: string | null;
+  message: string;
+  actions: IssueAction[];
+}
+
+export interface ForecastOptions {
+  target?: TargetKey;
+  form?: ModelFormKey;
+  intercept?: boolean;
+}
+
+export interface ModelPrediction {
+  // Floored at 0% of average
+  pct: number;
+  // Prediction on the model form's response scale, before the floor
+  response: number;
+  // Standard error of prediction on the model form's response scale
+  se: number;
+  intervals: { level: number; lowPct: number; highPct: number }[];
+}
+
+export interface ForecastModel {
+  form: ModelFormKey;
+  target: TargetKey;
+  intercept: boolean;
+  // OLS statistics; null for the locally weighted form
+  fit: ReturnType<typeof fitOLS> | null;
+  predict: (pcts: number[]) => ModelPrediction;
+  fitted: number[];
+}
+
+export interface ForecastInterval {
+  level: number;
+  lowPct: number;
+  highPct: number;
+  lowValue: number;
+  highValue: number;
+}
+
+export interface ScenarioForecast {
+  target: TargetKey;
+  unit: string;
+  pct: number;
+  value: number;
+  intervals: ForecastInterval[];
+  warnings: string[];
+}
+
+export type InputDistribution = keyof typeof INPUT_DISTRIBUTIONS;
+
+export interface InputUncertainty {
+  distribution: InputDistribution;
+  // Standard deviation in percentage points of average
+  sigma: number;
+}
+
+export interface MonteCarloOptions {
+  uncertainty?: Partial<Record<keyof Scenario, InputUncertainty>>;
+  // Add model residual error to each draw (default true)
+  residual?: boolean;
+  samples?: number;
+  seed?: number;
+  // Values in the target's units for which P(forecast < value) is reported
+  thresholds?: number[];
+}
+
+export interface MonteCarloForecast {
+  samples: number;
+  mean: { pct: number; value: number };
+  sd: { pct: number; value: number };
+  percentiles: { level: number; pct: number; value: number }[];
+  histogram: { pct: number; value: number; count: number; binStart: number; binEnd: number }[];
+  thresholds: { value: number; pct: number; probability: number }[];
+}
+
+export interface BasinAggregateOptions extends ForecastOptions {
+  basins: string[];
+  // Drainage area per basin in km²; needed to turn runoff depths (mm) into volumes
+  areas: Record<string, number | null>;
+  baseline?: Baseline;
+  issueDate?: IssueDateKey;
+  // Inputs in % of each basin's own average, shared by all basins
+  scenario: Scenario;
+  // When set, each basin takes its own inputs from this water year instead of the shared scenario
+  year?: number | null;
+}
+
+export interface BasinVolumeInterval {
+  level: number;
+  lowMAF: number;
+  highMAF: number;
+}
+
+export interface BasinContribution {
+  basin: string;
+  areaKm2: number | null;
+  forecast: ScenarioForecast;
+  volumeMAF: number;
+  meanVolumeMAF: number;
+  share: number;
+  intervals: BasinVolumeInterval[];
+}
+
+export interface BasinAggregate {
+  basins: BasinContribution[];
+  skipped: { basin: string; reason: string }[];
+  totalMAF: number;
+  meanMAF: number;
+  pct: number;
+  // Correlation of the basins' model residuals, in the order of basins, over the correlationYears
+  // water years that every basin has
+  residualCorrelation: number[][];
+  correlationYears: number;
+  // Basin half-widths combined with residualCorrelation; see forecastBasinAggregate
+  intervals: BasinVolumeInterval[];
+}
+
+export type CalibrationMethod = keyof typeof CALIBRATION_METHODS;
+
+export interface CalibrationOptions {
+  method?: CalibrationMethod;
+  // VIC flow target to map onto inflow_MAF
+  source?: Exclude<TargetKey, 'inflow'>;
+}
+
+// Error statistics of a calibration in MAF (bias is corrected minus observed)
+export interface CalibrationScores {
+  rmse: number;
+  bias: number;
+  nse: number;
+  r: number;
+}
+
+export interface InflowCalibration {
+  method: CalibrationMethod;
+  source: Exclude<TargetKey, 'inflow'>;
+  n: number;
+  // Regression line; null for quantile mapping
+  coefficients: { intercept: number; slope: number; r2: number } | null;
+  points: { year: number; simulated: number; observed: number; corrected: number; heldOut: number }[];
+  inSample: CalibrationScores;
+  crossValidated: CalibrationScores;
+  // Simulated flow (mm) -> bias-corrected inflow (MAF)
+  apply: (flow: number) => number;
+  correct: (value: number, intervals?: ForecastInterval[]) => CorrectedInflow;
+}
+
+export interface CorrectedInflow {
+  valueMAF: number;
+  intervals: BasinVolumeInterval[];
+}
+
+export type ProbabilityMethod = keyof typeof PROBABILITY_METHODS;
+
+export interface ProbabilityOptions extends ForecastOptions {
+  method?: ProbabilityMethod;
+  // Values in the target's units for which P(forecast < value) is reported
+  thresholds?: number[];
+}
+
+export interface CategoryForecast {
+  method: ProbabilityMethod;
+  // Tercile boundaries of the baseline years
+  terciles: { lower: { pct: number; value: number }; upper: { pct: number; value: number } };
+  probabilities: { below: number; near: number; above: number };
+  thresholds: { value: number; pct: number; probability: number }[];
+}
+
+export interface ReliabilityCurve {
+  key: 'below' | 'near' | 'above' | 'thresholds';
+  label: string;
+  n: number;
+  // Historical frequency of the event
+  baseRate: number;
+  brier: number;
+  brierSkill: number;
+  bins: { binStart: number; binEnd: number; count: number; meanForecast: number; observedFrequency: number }[];
+}
+
+export interface AnalogOptions {
+  k?: number;
+  weights?: Scenario;
+  target?: TargetKey;
+}
+
+export class DatasetValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Dataset failed validation: ${problems.join(' ')}`);
+    this.name = 'DatasetValidationError';
+    this.problems = problems;
+  }
+}
+
+const CSV_PARSE_OPTIONS = { header: true, dynamicTyping: true, skipEmptyLines: true } as const;
+
+// Raw rows and header of a CSV file, numbers already typed
+export const parseCsv = (text: string): { rows: RawRow[]; columns: string[] } => {
+  const results = Papa.parse<RawRow>(text, CSV_PARSE_OPTIONS);
+  return { rows: results.data, columns: results.meta.fields || [] };
+};
+
+// Parse (if given CSV text), map, quality-check, validate and normalise a dataset in one step
+export const loadDataset = (
+  source: string | RawRow[],
+  { mapping, baseline = DEFAULT_BASELINE, issueDate = DEFAULT_ISSUE_DATE, basin, exclude = [], qualityActions = {} }: LoadDatasetOptions = {}
+): EngineDataset & { issues: DataIssue[]; basin: string } => {
+  const { rows, columns } = typeof source === 'string'
+    ? parseCsv(source)
+    : { rows: source, columns: Object.keys(source[0] ?? {}) };
+  const columnMapping = mapping ?? guessColumnMapping(columns);
+  const mappingProblems = validateColumnMapping(columnMapping);
+  if (mappingProblems.length > 0) throw new DatasetValidationError(mappingProblems);
+  
+  const prepared = prepareDataset(applyColumnMapping(rows, columnMapping), qualityActions);
+  const basins = datasetBasins(prepared.rows);
+  const selectedBasin = basin ?? (basins.length === 1 ? basins[0] : '');
+  if (basins.length > 0 && !basins.includes(selectedBasin)) {
+    throw new DatasetValidationError([basin === undefined
+      ? `The file holds several basins; choose one of ${basins.join(', ')}.`
+      : `Basin "${basin}" is not in the file; it holds ${basins.join(', ')}.`]);
+  }
+  const selectedRows = basinRows(prepared.rows, selectedBasin);
+  const problems = [
+    ...prepared.blocked.map(issue => issue.message),
+    ...validateDatasetSize(selectedRows, baseline)
+  ];
+  if (problems.length === 0 && !availableIssueDates(selectedRows).includes(issueDate)) {
+    const { label, sweLabel, precipLabel } = ISSUE_DATES[issueDate];
+    problems.push(`The ${label} issue date needs ${sweLabel} and ${precipLabel} columns with a value in every water year.`);
+  }
+  const training = selectedRows.filter(r => !exclude.includes(r.water_year)).length;
+  if (problems.length === 0 && training < MIN_DATASET_YEARS) {
+    problems.push(`Excluding ${exclude.join(', ')} leaves ${training} training years; at least ${MIN_DATASET_YEARS} are needed.`);
+  }
+  if (problems.length > 0) throw new DatasetValidationError(problems);
+  return { ...processDataset(selectedRows, baseline, issueDate, exclude), issues: prepared.issues, basin: selectedBasin };
+};
+
+// Returns null when the design matrix is singular
+export const fitForecastModel = (
+  dataset: EngineDataset,
+  { target = 'annual', form = 'linear', intercept = true }: ForecastOptions = {}
+): ForecastModel | null => {
+  const model = fitModel(form, trainingYears(dataset.years), { intercept, target: FORECAST_TARGETS[target] });
+  return model ? { ...model, form, target, intercept } : null;
+};
+
+// Inputs or forecast outside the range of the training years; forecasts are flagged rather than clamped
+export const extrapolationWarnings = (dataset: EngineDataset, scenario: Scenario, target: TargetKey, forecastPct: number): string[] => {
+  const { ranges } = dataset;
+  const targetSpec = FORECAST_TARGETS[target];
+  const issueDate = ISSUE_DATES[dataset.issueDate];
+  return [
+    { label: issueDate.sweLabel, value: scenario.swe, range: ranges.swe_pct },
+    { label: 'Fall soil moisture', value: scenario.fallSM, range: ranges.fallSM_pct },
+    { label: issueDate.precipLabel, value: scenario.springPrecip, range: ranges.springPrecip_pct },
+    { label: `Forecast ${targetSpec.shortLabel}`, value: forecastPct, range: ranges[targetSpec.pctKey] }
+  ]
+    .filter(({ value, range }) => value < range.min || value > range.max)
+    .map(({ label, value, range }) =>
+      `${label} (${value.toFixed(0)}%) is outside the training range ${range.min.toFixed(0)}–${range.max.toFixed(0)}%`);
+};
+
+// Forecast with prediction intervals in % of average and in the target's units
+export const forecastScenario = (dataset: EngineDataset, model: ForecastModel, scenario: Scenario): ScenarioForecast => {
+  const target = FORECAST_TARGETS[model.target];
+  const toValue = (pct: number) => (pct / 100) * dataset.means[target.meanKey];
+  const prediction = model.predict([scenario.swe, scenario.fallSM, scenario.springPrecip]);
+  return {
+    target: model.target,
+    unit: target.unit,
+    pct: prediction.pct,
+    value: toValue(prediction.pct),
+    intervals: prediction.intervals.map(({ level, lowPct, highPct }) => ({
+      level,
+      lowPct,
+      highPct,
+      lowValue: toValue(lowPct),
+      highValue: toValue(highPct)
+    })),
+    warnings: extrapolationWarnings(dataset, scenario, model.target, prediction.pct)
+  };
+};
+
+// Forecast distribution from input and residual uncertainty, in % of average and in the target's units
+export const monteCarloScenario = (
+  dataset: EngineDataset,
+  model: ForecastModel,
+  scenario: Scenario,
+  { uncertainty = {}, residual = true, samples = 2000, seed = 1, thresholds = [] }: MonteCarloOptions = {}
+): MonteCarloForecast => {
+  const targetMean = dataset.means[FORECAST_TARGETS[model.target].meanKey];
+  const toValue = (pct: number) => (pct / 100) * targetMean;
+  const ensemble = monteCarloEnsemble(model, [scenario.swe, scenario.fallSM, scenario.springPrecip], {
+    uncertainty: PREDICTOR_KEYS.map(key => uncertainty[key]),
+    residual,
+    samples,
+    seed
+  });
+  return {
+    samples: ensemble.draws.length,
+    mean: { pct: ensemble.mean, value: toValue(ensemble.mean) },
+    sd: { pct: ensemble.sd, value: toValue(ensemble.sd) },
+    percentiles: ensemble.percentiles.map(({ level, pct }) => ({ level, pct, value: toValue(pct) })),
+    histogram: ensemble.histogram.map(({ value: pct, ...bin }) => ({ ...bin, pct, value: toValue(pct) })),
+    thresholds: thresholds.map(value => {
+      const pct = (value / targetMean) * 100;
+      return { value, pct, probability: ensemble.probabilityBelow(pct) };
+    })
+  };
+};
+
+// One mm of runoff over one km² is 1,000 m³, and one acre-foot is 1,233.48 m³
+export const MM_KM2_TO_MAF = 1000 / 1233.48 / 1e6;
+
+// Correlation of two basins' model residuals over the given water years
+const residualCorrelation = (a: Map<number, number>, b: Map<number, number>, shared: number[]) => {
+  const x = shared.map(year => a.get(year));
+  const y = shared.map(year => b.get(year));
+  const mx = x.reduce((sum, v) => sum + v, 0) / x.length;
+  const my = y.reduce((sum, v) => sum + v, 0) / y.length;
+  const sxy = x.reduce((sum, v, i) => sum + (v - mx) * (y[i] - my), 0);
+  const sxx = x.reduce((sum, v) => sum + (v - mx) ** 2, 0);
+  const syy = y.reduce((sum, v) => sum + (v - my) ** 2, 0);
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+};
+
+// Forecast each basin separately with the same target and model form and add the forecasts up as volumes:
+// runoff depths are weighted by drainage area, targets already in MAF are summed directly. Basins that
+// cannot be forecast are listed in skipped with the reason. The total's intervals combine the basins'
+// half-widths on each side as sqrt(Σᵢ Σⱼ rᵢⱼ hᵢ hⱼ), with rᵢⱼ the correlation of the basins' residuals
+// (in MAF). Every pair is correlated over the same water years, those all the basins have, so the matrix
+// stays positive semi-definite when basins cover different years; with fewer than three such years the
+// basins are taken as fully correlated, which can only widen the interval. The lower bound is floored at zero.
+export const forecastBasinAggregate = (
+  rows: RawRow[],
+  { basins, areas, baseline = DEFAULT_BASELINE, issueDate = DEFAULT_ISSUE_DATE, scenario, year = null,
+    target = 'annual', form = 'linear', intercept = true }: BasinAggregateOptions
+): BasinAggregate => {
+  const targetSpec = FORECAST_TARGETS[target];
+  const skipped = [];
+  const results = basins.flatMap(basin => {
+    const skip = (reason: string) => {
+      skipped.push({ basin, reason });
+      return [];
+    };
+    const area = areas[basin];
+    if (targetSpec.unit === 'mm' && !(area > 0)) return skip('no drainage area');
+    const selected = basinRows(rows, basin);
+    const problems = validateDatasetSize(selected, baseline);
+    if (problems.length > 0) return skip(problems[0]);
+    if (!availableIssueDates(selected).includes(issueDate)) return skip(`no ${ISSUE_DATES[issueDate].label} predictors`);
+    const dataset = processDataset(selected, baseline, issueDate);
+    if (!dataset.availableTargets.includes(target)) return skip(`no ${targetSpec.column} column`);
+    const model = fitForecastModel(dataset, { target, form, intercept });
+    if (!model) return skip('the model could not be fitted');
+    let inputs = scenario;
+    if (year !== null) {
+      const y = dataset.years.find(d => d.year === year);
+      if (!y) return skip(`no water year ${year}`);
+      inputs = { swe: y.swe_pct, fallSM: y.fallSM_pct, springPrecip: y.springPrecip_pct };
+    }
+    const forecast = forecastScenario(dataset, model, inputs);
+    const toMAF = (value: number) => (targetSpec.unit === 'mm' ? value * area * MM_KM2_TO_MAF : value);
+    const toValue = (pct: number) => (pct / 100) * dataset.means[targetSpec.meanKey];
+    const residuals = new Map(trainingYears(dataset.years).map((y, i) =>
+      [y.year, toMAF(toValue(y[targetSpec.pctKey]) - toValue(model.fitted[i]))] as [number, number]));
+    return [{
+      basin,
+      areaKm2: area ?? null,
+      forecast,
+      volumeMAF: toMAF(forecast.value),
+      meanVolumeMAF: toMAF(dataset.means[targetSpec.meanKey]),
+      share: 0,
+      intervals: forecast.intervals.map(i => ({ level: i.level, lowMAF: toMAF(i.lowValue), highMAF: toMAF(i.highValue) })),
+      residuals
+    }];
+  });
+  
+  const totalMAF = results.reduce((sum, r) => sum + r.volumeMAF, 0);
+  const meanMAF = results.reduce((sum, r) => sum + r.meanVolumeMAF, 0);
+  const sharedYears = results.length > 0
+    ? [...results[0].residuals.keys()].filter(year => results.every(r => r.residuals.has(year)))
+    : [];
+  const correlation = results.map(a => results.map(b =>
+    (a === b || sharedYears.length < 3 ? 1 : residualCorrelation(a.residuals, b.residuals, sharedYears))));
+  const combine = (halfWidths: number[]) =>
+    Math.sqrt(Math.max(halfWidths.reduce((sum, hi, i) => sum + halfWidths.reduce((inner, hj, j) => inner + correlation[i][j] * hi * hj, 0), 0), 0));
+  return {
+    basins: results.map(({ residuals, ...r }) => ({ ...r, share: r.volumeMAF / totalMAF })),
+    skipped,
+    totalMAF,
+    meanMAF,
+    pct: (totalMAF / meanMAF) * 100,
+    residualCorrelation: correlation,
+    correlationYears: sharedYears.length,
+    intervals: INTERVAL_LEVELS.map(level => {
+      const bounds = results.map(r => r.intervals.find(i => i.level === level));
+      return {
+        level,
+        lowMAF: Math.max(0, totalMAF - combine(bounds.map((b, i) => results[i].volumeMAF - b.lowMAF))),
+        highMAF: totalMAF + combine(bounds.map((b, i) => b.highMAF - results[i].volumeMAF))
+      };
+    })
+  };
+};
+
+// Calibrate the dataset's VIC flow against observed inflow over the training years; null when the dataset
+// has no inflow_MAF column or the mapping cannot be fitted
+export const calibrateInflow = (
+  dataset: EngineDataset,
+  { method = 'linear', source = 'annual' }: CalibrationOptions = {}
+): InflowCalibration | null => {
+  if (!dataset.availableTargets.includes('inflow') || !dataset.availableTargets.includes(source)) return null;
+  const calibration = flowCalibration(trainingYears(dataset.years), { method, source: FORECAST_TARGETS[source] });
+  return calibration ? { ...calibration, method, source } : null;
+};
+
+// Bias-corrected Powell inflow for a forecast of the calibration's flow target
+export const correctForecastInflow = (calibration: InflowCalibration, forecast: ScenarioForecast): CorrectedInflow => {
+  if (forecast.target !== calibration.source) {
+    throw new Error(`Calibration maps ${calibration.source} flow, not a ${forecast.target} forecast`);
+  }
+  return calibration.correct(forecast.value, forecast.intervals);
+};
+
+// Tercile and threshold probabilities for a scenario, from the training years
+export const categoryForecast = (
+  dataset: EngineDataset,
+  scenario: Scenario,
+  { target = 'annual', form = 'linear', intercept = true, method = 'residual', thresholds = [] }: ProbabilityOptions = {}
+): CategoryForecast | null => {
+  const spec = FORECAST_TARGETS[target];
+  const toPct = (value: number) => (value / dataset.means[spec.meanKey]) * 100;
+  const toValue = (pct: number) => (pct / 100) * dataset.means[spec.meanKey];
+  const terciles = targetTerciles(dataset.years, dataset.baseline, spec);
+  const model = exceedanceModel(trainingYears(dataset.years), [terciles.lower, terciles.upper, ...thresholds.map(toPct)], {
+    method, form, intercept, target: spec
+  });
+  if (!model) return null;
+  const [belowLower, belowUpper, ...belowThresholds] = model([scenario.swe, scenario.fallSM, scenario.springPrecip]);
+  return {
+    method,
+    terciles: {
+      lower: { pct: terciles.lower, value: toValue(terciles.lower) },
+      upper: { pct: terciles.upper, value: toValue(terciles.upper) }
+    },
+    probabilities: tercileProbabilities([belowLower, belowUpper]),
+    thresholds: thresholds.map((value, i) => ({ value, pct: toPct(value), probability: belowThresholds[i] }))
+  };
+};
+
+// Leave-one-out reliability of the tercile and threshold probabilities over the training years
+export const categoryReliability = (
+  dataset: EngineDataset,
+  { target = 'annual', form = 'linear', intercept = true, method = 'residual', thresholds = [] }: ProbabilityOptions = {}
+): ReliabilityCurve[] => {
+  const spec = FORECAST_TARGETS[target];
+  const terciles = targetTerciles(dataset.years, dataset.baseline, spec);
+  const pcts = thresholds.map(value => (value / dataset.means[spec.meanKey]) * 100);
+  return probabilityReliability(trainingYears(dataset.years), terciles, pcts, { method, form, intercept, target: spec }) as ReliabilityCurve[];
+};
+
+export const findScenarioAnalogs = (
+  dataset: EngineDataset,
+  scenario: Scenario,
+  { k = 5, weights = { swe: 1, fallSM: 1, springPrecip: 1 }, target = 'annual' }: AnalogOptions = {}
+) => findAnalogs(dataset.years, [scenario.swe, scenario.fallSM, scenario.springPrecip], {
+  k,
+  weights,
+  target: FORECAST_TARGETS[target]
+});
@@ -0,0 +1,154 @@
+// Forecast brief layout checks.
+//
+//   npm test
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { convertUnits } from './engine';
+import { reportLines, renderReportPdf } from './report';
+
+const DISCLAIMER = 'This is a development version intended for testing and validation. ' +
+  'Results should not be used for operational water management decisions without proper verification.';
+
+// 1x1 white PNG standing in for the scatter chart snapshot
+const CHART = {
+  dataUrl: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4//8/AAX+Av4N70a4AAAAAElFTkSuQmCC',
+  width: 600,
+  height: 400
+};
+
+// A brief with every optional section filled in, as the App builds it for a multi-basin dataset
+const fullReport = () => {
+  const intervals = [0.5, 0.8, 0.9, 0.95].map(level => ({
+    level, lowPct: 100 - 40 * level, highPct: 100 + 40 * level, lowValue: 9.6 - 4 * level, highValue: 9.6 + 4 * level
+  }));
+  return {
+    generatedAt: '2026-04-01T12:00:00.000Z',
+    fileStem: 'powell-forecast-2026-04-01',
+    dataset: { name: 'basins.csv', source: 'upload', basin: 'Green', years: 42, span: '1982-2023' },
+    baseline: { start: 1991, end: 2020 },
+    issueDate: { key: 'apr1', label: 'April 1', sweLabel: 'Apr 1 SWE', precipLabel: 'Spring precip' },
+    target: { key: 'inflow', label: 'Lake Powell unregulated inflow', unit: 'MAF', unitKey: 'MAF', nativeUnit: 'MAF', decimals: 2 },
+    drainageAreaKm2: 279000,
+    volumeUnit: 'MAF',
+    model: {
+      form: 'interaction',
+      label: 'Linear with interactions',
+      intercept: true,
+      equation: 'Q = b0 + b1 SWE + b2 SM + b3 P + b4 SWE×SM + b5 SWE×P + b6 SM×P',
+      excludedYears: [1983, 2011]
+    },
+    inputs: { swe: 85, fallSM: 92, springPrecip: 110, selectedYear: null },
+    forecast: {
+      pct: 96.4,
+      value: 9.26,
+      intervals,
+      inflowMAF: 9.26,
+      correctedInflow: {
+        method: 'quantile',
+        label: 'Empirical quantile mapping',
+        looRmse: 1.12,
+        looBias: -0.08,
+        valueMAF: 9.1,
+        intervals: intervals.map(i => ({ level: i.level, lowMAF: i.lowValue - 0.2, highMAF: i.highValue + 0.2 }))
+      }
+    },
+    categories: {
+      method: 'residual',
+      label: 'Residual distribution',
+      probabilities: { below: 0.31, near: 0.36, above: 0.33 },
+      terciles: { lower: { value: 8.1 }, upper: { value: 10.9 } },
+      thresholds: [6, 7, 8, 9].map((value, i) => ({ value, probability: 0.05 + 0.1 * i }))
+    },
+    esp: {
+      traces: 42,
+      exceedance: [0.1, 0.3, 0.5, 0.7, 0.9].map(level => ({ level, pct: 130 - 60 * level, value: 12.9 - 6 * level }))
+    },
+    basinAggregate: {
+      basins: ['Green', 'Gunnison', 'San Juan', 'Upper Colorado', 'Dolores'].map((basin, i) => ({
+        basin, areaKm2: 20000 + 5000 * i, forecast: { pct: 90 + 3 * i }, volumeMAF: 1.5 + i / 2, share: 0.2
+      })),
+      totalMAF: 12.5,
+      pct: 97.2,
+      skipped: [{ basin: 'Dirty Devil', reason: 'too few water years in the baseline' }]
+    },
+    monteCarlo: {
+      samples: 5000,
+      residual: true,
+      uncertainty: {
+        swe: { sigma: 10, distribution: 'normal' },
+        fallSM: { sigma: 15, distribution: 'normal' },
+        springPrecip: { sigma: 20, distribution: 'lognormal' }
+      },
+      percentiles: [0.05, 0.1, 0.25, 0.5, 0.75, 0.9, 0.95].map(level => ({ level, pct: 60 + 80 * level, value: 6 + 8 * level })),
+      thresholds: [6, 7, 8].map((value, i) => ({ value, probability: 0.1 * (i + 1) }))
+    },
+    reservoir: {
+      startStorage: 7.2, startElevation: 3544, inflow: 9.1, release: 7.48, evaporation: 0.38,
+      endStorage: 8.44, endElevation: 3560.3, endTier: 'Mid-Elevation Release',
+      crossings: [{ elevation: 3525, label: 'Lower Elevation Balancing tier', direction: 'above' }]
+    },
+    contributions: { swe: -8.1, fallSM: -2.4, springPrecip: 6.9 },
+    coefficients: ['Intercept', 'SWE', 'SM', 'P', 'SWE×SM', 'SWE×P', 'SM×P'].map((term, i) => ({
+      term, estimate: 0.5 - i / 10, se: 0.05, pValue: i === 0 ? 0.0001 : 0.02 * i
+    })),
+    fitStatistics: { r2: 0.84, adjR2: 0.81, rse: 11.2, n: 40 },
+    warnings: [
+      'Apr 1 SWE of 85% is within the training range, but the combination of inputs is unusual for the record.',
+      'Spring precip of 110% sits near the edge of the years used to fit the model.'
+    ],
+    disclaimer: DISCLAIMER
+  };
+};
+
+// Text drawn on the pages, with jsPDF's escaping and the line wrapping undone
+const pdfText = (doc) => doc.output()
+  .split('\n')
+  .filter(line => line.endsWith('Tj'))
+  .map(line => line.slice(line.indexOf('(') + 1, line.lastIndexOf(')')).replace(/\\(.)/g, '$1'))
+  .join(' ');
+
+test('a full PDF brief runs onto further pages and keeps every line and the disclaimer', async () => {
+  const report = fullReport();
+  for (const chart of [CHART, null]) {
+    const doc = await renderReportPdf(report, chart);
+    assert.ok(doc.getNumberOfPages() > 1, `${doc.getNumberOfPages()} page(s) ${chart ? 'with' : 'without'} the chart`);
+    const text = pdfText(doc);
+    // Each line's opening words, skipping the few that start with characters the standard fonts re-encode
+    reportLines(report)
+      .map(line => line.text.split(' ').slice(0, 4).join(' '))
+      .filter(opening => /^[ -~]*$/.test(opening))
+      .forEach(opening => assert.ok(text.includes(opening), opening));
+    assert.ok(text.includes('INTERNAL BETA VERSION: This is a development version'));
+    assert.ok(text.includes('without proper verification.'));
+  }
+});
+
+test('a short PDF brief stays on one page', async () => {
+  const report = {
+    ...fullReport(),
+    categories: null,
+    esp: null,
+    basinAggregate: null,
+    monteCarlo: null,
+    reservoir: null,
+    coefficients: [],
+    fitStatistics: null,
+    warnings: []
+  };
+  const doc = await renderReportPdf(report, null);
+  assert.equal(doc.getNumberOfPages(), 1);
+  assert.ok(pdfText(doc).includes('without proper verification.'));
+});
+
+test('report volumes follow the display unit, over each basin\'s own area for depths', () => {
+  const textOf = (report) => reportLines(report).map(line => line.text).join('\n');
+  const acreFeet = textOf({ ...fullReport(), volumeUnit: 'AF' });
+  assert.ok(acreFeet.includes('Green: 90.0% of average, 1,500,000 AF (20%)'));
+  assert.ok(acreFeet.includes('Total: 12,500,000 AF'));
+  assert.ok(acreFeet.includes('Start 3544.0 ft (7,200,000 AF)  |  inflow 9,100,000 AF  |  release 7,480,000 AF'));
+  assert.ok(acreFeet.includes('Bias-corrected Powell inflow (empirical quantile mapping): 9,100,000 AF'));
+
+  const depth = textOf({ ...fullReport(), volumeUnit: 'mm' });
+  assert.ok(depth.includes(`Gunnison: 93.0% of average, ${convertUnits(2, 'MAF', 'mm', 25000).toFixed(1)} mm`));
+  assert.ok(depth.includes(`Total: ${convertUnits(12.5, 'MAF', 'mm', 150000).toFixed(1)} mm`));
+});
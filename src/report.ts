@@ -0,0 +1,199 @@
+// Forecast brief content and its PDF layout. The App builds the report object; the PNG renderer in the
+// App shares reportLines and the font sizes so both briefs read the same.
+import { DISPLAY_UNITS, PREDICTOR_KEYS, convertUnits } from './engine';
+
+export const formatPValue = (p) => (p < 0.001 ? '< 0.001' : p.toFixed(3));
+
+// Text content of the forecast brief, shared by the PDF and PNG renderers
+export const reportLines = (report) => {
+  const { forecast, target } = report;
+  const fmt = (v) => v.toFixed(target.decimals);
+  const signed = (v) => `${v >= 0 ? '+' : ''}${v.toFixed(1)}%`;
+  // Volumes computed in MAF (inflow, sub-basin totals, reservoir) are shown in the report's volume unit;
+  // a depth unit spreads them over the drainage area
+  const volumeUnit = DISPLAY_UNITS[report.volumeUnit];
+  const volume = (maf, withUnit = true, areaKm2 = report.drainageAreaKm2) => {
+    const text = convertUnits(maf, 'MAF', report.volumeUnit, areaKm2).toLocaleString('en-US', {
+      minimumFractionDigits: volumeUnit.decimals,
+      maximumFractionDigits: volumeUnit.decimals
+    });
+    return withUnit ? `${text} ${volumeUnit.label}` : text;
+  };
+  const basinAreas = report.basinAggregate?.basins.map(b => b.areaKm2) ?? [];
+  const totalAreaKm2 = basinAreas.length > 0 && basinAreas.every(a => a !== null)
+    ? basinAreas.reduce((sum, a) => sum + a, 0)
+    : report.drainageAreaKm2;
+  return [
+    { style: 'title', text: 'Lake Powell Inflow Forecast Brief' },
+    { style: 'small', text: `Generated ${new Date(report.generatedAt).toLocaleString()}` },
+    { style: 'warning', text: 'INTERNAL BETA VERSION - FOR DEVELOPMENT AND TESTING ONLY' },
+    { style: 'heading', text: 'Data and model' },
+    { style: 'body', text: `Dataset: ${report.dataset.name} (${report.dataset.source}, ${report.dataset.years} water years, ${report.dataset.span})` },
+    ...(report.dataset.basin ? [{ style: 'body', text: `Basin: ${report.dataset.basin}` }] : []),
+    { style: 'body', text: `Baseline period: ${report.baseline.start}-${report.baseline.end}` },
+    { style: 'body', text: `Issue date: ${report.issueDate.label}` },
+    { style: 'body', text: `Target: ${target.label} (${target.unit})` },
+    ...(DISPLAY_UNITS[target.unitKey].kind !== DISPLAY_UNITS[target.nativeUnit].kind
+      ? [{ style: 'small', text: `Converted from ${target.nativeUnit} over a ${report.drainageAreaKm2.toLocaleString()} km² drainage area` }]
+      : []),
+    { style: 'body', text: `Model: ${report.model.label}${report.model.intercept ? ' with intercept' : ''}` },
+    ...(report.model.excludedYears.length > 0
+      ? [{ style: 'body', text: `Water years excluded from training: ${report.model.excludedYears.join(', ')}` }]
+      : []),
+    { style: 'heading', text: 'Inputs (% of baseline average)' },
+    { style: 'body', text: `${report.issueDate.sweLabel} ${report.inputs.swe.toFixed(1)}%  |  Fall SM ${report.inputs.fallSM.toFixed(1)}%  |  ${report.issueDate.precipLabel} ${report.inputs.springPrecip.toFixed(1)}%` },
+    ...(report.inputs.selectedYear !== null ? [{ style: 'small', text: `Inputs from water year ${report.inputs.selectedYear}` }] : []),
+    { style: 'heading', text: 'Forecast' },
+    { style: 'body', text: `${forecast.pct.toFixed(1)}% of average = ${fmt(forecast.value)} ${target.unit}` },
+    ...forecast.intervals.map(i => ({
+      style: 'body',
+      text: `${Math.round(i.level * 100)}% interval: ${i.lowPct.toFixed(1)}-${i.highPct.toFixed(1)}%  (${fmt(i.lowValue)}-${fmt(i.highValue)} ${target.unit})`
+    })),
+    ...(forecast.inflowMAF !== null && target.key !== 'inflow'
+      ? [{ style: 'body', text: `Lake Powell unregulated inflow (same inputs and model): ${volume(forecast.inflowMAF)}` }]
+      : []),
+    ...(forecast.correctedInflow
+      ? [
+          {
+            style: 'body',
+            text: `Bias-corrected Powell inflow (${forecast.correctedInflow.label.toLowerCase()}): ${volume(forecast.correctedInflow.valueMAF)}, ` +
+              forecast.correctedInflow.intervals.map(i => `${Math.round(i.level * 100)}% ${volume(i.lowMAF, false)}-${volume(i.highMAF, false)}`).join(', ')
+          },
+          { style: 'small', text: `Calibration leave-one-out RMSE ${volume(forecast.correctedInflow.looRmse)}, bias ${volume(forecast.correctedInflow.looBias)}` }
+        ]
+      : []),
+    ...(report.categories
+      ? [
+          { style: 'heading', text: `Tercile probabilities (${report.categories.label.toLowerCase()})` },
+          {
+            style: 'body',
+            text: `Below normal ${(report.categories.probabilities.below * 100).toFixed(0)}%  |  near normal ${(report.categories.probabilities.near * 100).toFixed(0)}%  |  above normal ${(report.categories.probabilities.above * 100).toFixed(0)}%`
+          },
+          { style: 'small', text: `Tercile bounds ${fmt(report.categories.terciles.lower.value)} and ${fmt(report.categories.terciles.upper.value)} ${target.unit}` },
+          ...report.categories.thresholds.map(t => ({
+            style: 'body',
+            text: `P(below ${fmt(t.value)} ${target.unit}) = ${(t.probability * 100).toFixed(1)}%`
+          }))
+        ]
+      : []),
+    ...(report.esp
+      ? [
+          { style: 'heading', text: `ESP ensemble (${report.esp.traces} historical spring precipitation traces)` },
+          ...report.esp.exceedance.map(e => ({
+            style: 'body',
+            text: `${Math.round(e.level * 100)}% exceedance: ${e.pct.toFixed(1)}%  (${fmt(e.value)} ${target.unit})`
+          }))
+        ]
+      : []),
+    ...(report.basinAggregate
+      ? [
+          { style: 'heading', text: `Sub-basin total (${report.basinAggregate.basins.length} basins, area-weighted)` },
+          ...report.basinAggregate.basins.map(b => ({
+            style: 'body',
+            text: `${b.basin}: ${b.forecast.pct.toFixed(1)}% of average, ${volume(b.volumeMAF, true, b.areaKm2 ?? report.drainageAreaKm2)} (${(b.share * 100).toFixed(0)}%)`
+          })),
+          {
+            style: 'body',
+            text: `Total: ${volume(report.basinAggregate.totalMAF, true, totalAreaKm2)}, ${report.basinAggregate.pct.toFixed(1)}% of average`
+          },
+          ...report.basinAggregate.skipped.map(b => ({ style: 'small', text: `${b.basin} left out: ${b.reason}` }))
+        ]
+      : []),
+    ...(report.monteCarlo
+      ? [
+          { style: 'heading', text: `Monte Carlo distribution (${report.monteCarlo.samples} draws${report.monteCarlo.residual ? ', with residual error' : ''})` },
+          { style: 'small', text: `Input uncertainty (1σ, pts of avg): ${PREDICTOR_KEYS.map(key => `${key} ${report.monteCarlo.uncertainty[key].sigma} (${report.monteCarlo.uncertainty[key].distribution})`).join(', ')}` },
+          ...report.monteCarlo.percentiles.map(p => ({
+            style: 'body',
+            text: `P${Math.round(p.level * 100)}: ${p.pct.toFixed(1)}%  (${fmt(p.value)} ${target.unit})`
+          })),
+          ...report.monteCarlo.thresholds.map(t => ({
+            style: 'body',
+            text: `P(below ${fmt(t.value)} ${target.unit}) = ${(t.probability * 100).toFixed(1)}%`
+          }))
+        ]
+      : []),
+    ...report.warnings.map(w => ({ style: 'warning', text: w })),
+    ...(report.reservoir
+      ? [
+          { style: 'heading', text: 'Lake Powell end-of-water-year projection' },
+          { style: 'body', text: `Start ${report.reservoir.startElevation.toFixed(1)} ft (${volume(report.reservoir.startStorage)})  |  inflow ${volume(report.reservoir.inflow)}  |  release ${volume(report.reservoir.release)}  |  evaporation ${volume(report.reservoir.evaporation)}` },
+          { style: 'body', text: `End ${report.reservoir.endElevation.toFixed(1)} ft (${volume(report.reservoir.endStorage)}), ${report.reservoir.endTier} tier` },
+          ...report.reservoir.crossings.map(c => ({
+            style: c.direction === 'below' ? 'warning' : 'body',
+            text: `${c.direction === 'below' ? 'Falls below' : 'Rises above'} ${c.elevation} ft (${c.label})`
+          }))
+        ]
+      : []),
+    { style: 'heading', text: 'Factor contributions (percentage points of average)' },
+    { style: 'body', text: `SWE ${signed(report.contributions.swe)}  |  Fall SM ${signed(report.contributions.fallSM)}  |  Spring precip ${signed(report.contributions.springPrecip)}` },
+    { style: 'heading', text: 'Model coefficients' },
+    { style: 'small', text: report.model.equation },
+    ...(report.coefficients.length > 0
+      ? report.coefficients.map(c => ({
+          style: 'body',
+          text: `${c.term}: ${c.estimate.toFixed(4)}  (SE ${c.se.toFixed(4)}, p ${formatPValue(c.pValue)})`
+        }))
+      : [{ style: 'body', text: 'No global coefficients (locally weighted model).' }]),
+    ...(report.fitStatistics
+      ? [{ style: 'body', text: `R² ${report.fitStatistics.r2.toFixed(3)}, adjusted R² ${report.fitStatistics.adjR2.toFixed(3)}, residual SE ${report.fitStatistics.rse.toFixed(3)}` }]
+      : [])
+  ];
+};
+
+export const REPORT_FONT_SIZES = { title: 18, heading: 12, body: 9.5, small: 8, warning: 9 };
+
+// Lays the brief out on letter pages, starting a new page whenever the next line, the chart or the
+// disclaimer would run into the bottom margin. Returns the jsPDF document for the caller to save.
+export const renderReportPdf = async (report, chart) => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  const margin = 40;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - 2 * margin;
+  let y = margin;
+  const reserve = (height) => {
+    if (y > margin && y + height > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+  
+  reportLines(report).forEach(line => {
+    const size = REPORT_FONT_SIZES[line.style];
+    doc.setFont('helvetica', line.style === 'title' || line.style === 'heading' ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    doc.setTextColor(line.style === 'warning' ? '#dc2626' : line.style === 'small' ? '#4b5563' : '#111827');
+    const wrapped = doc.splitTextToSize(line.text, contentWidth);
+    const lineHeight = size * 1.25;
+    if (line.style === 'heading') {
+      // Keep a heading with the first line under it
+      reserve(6 + lineHeight + REPORT_FONT_SIZES.body * 1.25);
+      if (y > margin) y += 6;
+    }
+    wrapped.forEach(text => {
+      reserve(lineHeight);
+      doc.text(text, margin, y + size);
+      y += lineHeight;
+    });
+    y += 2;
+  });
+  
+  if (chart) {
+    // A chart taller than a page is scaled down to fit one
+    const chartWidth = Math.min(contentWidth * 0.8, (pageHeight - 2 * margin - 12) * (chart.width / chart.height));
+    const chartHeight = chartWidth * (chart.height / chart.width);
+    reserve(chartHeight + 12);
+    doc.addImage(chart.dataUrl, 'PNG', margin + (contentWidth - chartWidth) / 2, y + 6, chartWidth, chartHeight);
+    y += chartHeight + 12;
+  }
+  
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.setTextColor('#6b7280');
+  const disclaimer = doc.splitTextToSize(`INTERNAL BETA VERSION: ${report.disclaimer}`, contentWidth);
+  reserve(disclaimer.length * 7 * 1.25 + 7);
+  doc.text(disclaimer, margin, y + 7);
+  return doc;
+};
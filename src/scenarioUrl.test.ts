@@ -0,0 +1,87 @@
+// Shareable scenario link checks.
+//
+//   npm test
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_BASELINE, DEFAULT_ISSUE_DATE } from './engine';
+import { DEFAULT_INPUT_UNCERTAINTY, DEFAULT_SCATTER_ENCODING, readScenarioFromQuery, scenarioToQuery } from './scenarioUrl';
+
+// Every setting at the value the App starts with
+const defaults = {
+  swe: 100,
+  fallSM: 100,
+  springPrecip: 100,
+  year: null,
+  target: 'annual',
+  model: 'linear',
+  intercept: true,
+  baseline: DEFAULT_BASELINE,
+  k: 5,
+  basin: '',
+  issueDate: DEFAULT_ISSUE_DATE,
+  exclude: [],
+  esp: false,
+  unit: 'native',
+  area: null,
+  calibration: 'linear',
+  probability: 'residual',
+  riskThresholds: '',
+  monteCarlo: false,
+  uncertainty: DEFAULT_INPUT_UNCERTAINTY,
+  residual: true,
+  monteCarloThresholds: '',
+  scatter: DEFAULT_SCATTER_ENCODING,
+  scatterPct: true
+};
+
+test('a link with every setting changed reads back to the same scenario', () => {
+  const scenario = {
+    swe: 87.123456,
+    fallSM: 64,
+    springPrecip: 131.5,
+    year: 2002,
+    target: 'inflow',
+    model: 'loess',
+    intercept: false,
+    baseline: { start: 1985, end: 2014 },
+    k: 8,
+    basin: 'San Juan',
+    issueDate: 'may1',
+    exclude: [1983, 2011],
+    // ESP is checked separately: it only applies at the default issue date
+    esp: false,
+    unit: 'km3',
+    area: 45000,
+    calibration: 'quantile',
+    probability: 'logistic',
+    riskThresholds: '6.5, 8',
+    monteCarlo: true,
+    uncertainty: {
+      swe: { distribution: 'lognormal', sigma: 12 },
+      fallSM: { distribution: 'uniform', sigma: 7.5 },
+      springPrecip: { distribution: 'normal', sigma: 20 }
+    },
+    residual: false,
+    monteCarloThresholds: '5 7',
+    scatter: { x: 'fallSM', y: 'aprJul', color: '', size: 'swe' },
+    scatterPct: false
+  };
+  const read = readScenarioFromQuery(scenarioToQuery(scenario));
+  assert.deepEqual(read, { ...scenario, swe: 87.123 });
+});
+
+test('settings at their defaults stay out of the link and unknown values are ignored', () => {
+  assert.equal(scenarioToQuery(defaults), '?swe=100&fallSM=100&springPrecip=100');
+
+  const read = readScenarioFromQuery('?swe=abc&target=volume&model=cubic&issue=dec1&unit=furlongs&mcu=normal:10,normal:5&scatter=swe,fallSM');
+  assert.equal(read.swe, undefined);
+  assert.equal(read.target, undefined);
+  assert.equal(read.model, undefined);
+  assert.equal(read.issueDate, undefined);
+  assert.equal(read.unit, undefined);
+  assert.equal(read.uncertainty, undefined);
+  assert.equal(read.scatter, undefined);
+  // ESP resamples spring precipitation, which is already observed by some issue dates
+  assert.equal(readScenarioFromQuery('?esp=1&issue=mar1').esp, false);
+  assert.equal(readScenarioFromQuery('?esp=1').esp, true);
+});
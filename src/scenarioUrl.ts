@@ -0,0 +1,104 @@
+// Scenario state mirrored in the query string, so a link reproduces the forecast and browser
+// back/forward steps through scenario changes.
+import {
+  FORECAST_TARGETS, MODEL_FORMS, PREDICTOR_KEYS, ISSUE_DATES, DEFAULT_ISSUE_DATE, DEFAULT_BASELINE, INPUT_DISTRIBUTIONS,
+  DISPLAY_UNITS, CALIBRATION_METHODS, PROBABILITY_METHODS
+} from './engine';
+import type { TargetKey, ModelFormKey, IssueDateKey, InputDistribution, DisplayUnitKey, CalibrationMethod, ProbabilityMethod } from './engine';
+
+// Starting Monte Carlo input uncertainty (sigma in percentage points of average) and scatter encodings
+export const DEFAULT_INPUT_UNCERTAINTY = {
+  swe: { distribution: 'normal' as InputDistribution, sigma: 10 },
+  fallSM: { distribution: 'normal' as InputDistribution, sigma: 5 },
+  springPrecip: { distribution: 'normal' as InputDistribution, sigma: 0 }
+};
+export const DEFAULT_SCATTER_ENCODING = { x: 'swe', y: '', color: 'springPrecip', size: 'fallSM' };
+
+// Settings read back from a query string (window.location.search); anything missing or not recognised
+// is left undefined so the App falls back to its default
+export const readScenarioFromQuery = (search: string) => {
+  const params = new URLSearchParams(search);
+  const num = (key) => {
+    const v = parseFloat(params.get(key));
+    return Number.isFinite(v) ? v : undefined;
+  };
+  const [start, end] = (params.get('baseline') || '').split('-').map(v => parseInt(v));
+  const issueDate = ISSUE_DATES[params.get('issue')] ? params.get('issue') as IssueDateKey : undefined;
+  // Monte Carlo input uncertainty as distribution:sigma per predictor, e.g. mcu=normal:10,normal:5,uniform:8
+  const uncertaintyParts = (params.get('mcu') || '').split(',').map(part => part.split(':'));
+  const uncertainty = uncertaintyParts.length === PREDICTOR_KEYS.length &&
+    uncertaintyParts.every(([distribution, sigma]) => INPUT_DISTRIBUTIONS[distribution] && parseFloat(sigma) >= 0)
+    ? Object.fromEntries(PREDICTOR_KEYS.map((key, i) => [
+        key,
+        { distribution: uncertaintyParts[i][0] as InputDistribution, sigma: parseFloat(uncertaintyParts[i][1]) }
+      ]))
+    : undefined;
+  // Scatter encodings as x,y,color,size; unknown variables fall back to the defaults when the chart renders
+  const scatterParts = (params.get('scatter') || '').split(',');
+  return {
+    swe: num('swe'),
+    fallSM: num('fallSM'),
+    springPrecip: num('springPrecip'),
+    year: num('wy') ?? null,
+    target: FORECAST_TARGETS[params.get('target')] ? params.get('target') as TargetKey : undefined,
+    model: MODEL_FORMS[params.get('model')] ? params.get('model') as ModelFormKey : undefined,
+    intercept: params.has('intercept') ? params.get('intercept') !== '0' : undefined,
+    baseline: Number.isFinite(start) && Number.isFinite(end) ? { start, end } : undefined,
+    k: num('k'),
+    basin: params.get('basin') ?? undefined,
+    issueDate,
+    exclude: (params.get('exclude') || '').split(',').map(v => parseInt(v)).filter(Number.isFinite),
+    // ESP resamples the spring precipitation scenario, so it needs an issue date that has one
+    esp: params.get('esp') === '1' && !ISSUE_DATES[issueDate ?? DEFAULT_ISSUE_DATE].precipObserved,
+    unit: DISPLAY_UNITS[params.get('unit')] ? params.get('unit') as DisplayUnitKey : undefined,
+    area: num('area'),
+    calibration: CALIBRATION_METHODS[params.get('cal')] ? params.get('cal') as CalibrationMethod : undefined,
+    probability: PROBABILITY_METHODS[params.get('prob')] ? params.get('prob') as ProbabilityMethod : undefined,
+    riskThresholds: params.get('risk') ?? undefined,
+    monteCarlo: params.get('mc') === '1',
+    uncertainty,
+    residual: params.get('mcres') !== '0',
+    monteCarloThresholds: params.get('mcq') ?? undefined,
+    scatter: scatterParts.length === 4
+      ? { x: scatterParts[0], y: scatterParts[1], color: scatterParts[2], size: scatterParts[3] }
+      : undefined,
+    scatterPct: params.get('scatterPct') !== '0'
+  };
+};
+
+// Inverse of readScenarioFromQuery; settings at their defaults are left out to keep links short
+export const scenarioToQuery = (scenario) => {
+  const params = new URLSearchParams();
+  params.set('swe', String(Number(scenario.swe.toFixed(3))));
+  params.set('fallSM', String(Number(scenario.fallSM.toFixed(3))));
+  params.set('springPrecip', String(Number(scenario.springPrecip.toFixed(3))));
+  if (scenario.year !== null) params.set('wy', String(scenario.year));
+  if (scenario.target !== 'annual') params.set('target', scenario.target);
+  if (scenario.model !== 'linear') params.set('model', scenario.model);
+  if (!scenario.intercept) params.set('intercept', '0');
+  if (scenario.baseline.start !== DEFAULT_BASELINE.start || scenario.baseline.end !== DEFAULT_BASELINE.end) {
+    params.set('baseline', `${scenario.baseline.start}-${scenario.baseline.end}`);
+  }
+  if (scenario.k !== 5) params.set('k', String(scenario.k));
+  if (scenario.basin) params.set('basin', scenario.basin);
+  if (scenario.issueDate !== DEFAULT_ISSUE_DATE) params.set('issue', scenario.issueDate);
+  if (scenario.exclude.length > 0) params.set('exclude', scenario.exclude.join(','));
+  if (scenario.esp) params.set('esp', '1');
+  if (scenario.unit !== 'native') params.set('unit', scenario.unit);
+  if (scenario.area) params.set('area', String(scenario.area));
+  if (scenario.calibration !== 'linear') params.set('cal', scenario.calibration);
+  if (scenario.probability !== 'residual') params.set('prob', scenario.probability);
+  if (scenario.riskThresholds.trim()) params.set('risk', scenario.riskThresholds.trim());
+  if (scenario.monteCarlo) params.set('mc', '1');
+  const uncertainty = PREDICTOR_KEYS.map(key => `${scenario.uncertainty[key].distribution}:${scenario.uncertainty[key].sigma}`).join(',');
+  const defaultUncertainty = PREDICTOR_KEYS.map(key => `${DEFAULT_INPUT_UNCERTAINTY[key].distribution}:${DEFAULT_INPUT_UNCERTAINTY[key].sigma}`).join(',');
+  if (uncertainty !== defaultUncertainty) params.set('mcu', uncertainty);
+  if (!scenario.residual) params.set('mcres', '0');
+  if (scenario.monteCarloThresholds.trim()) params.set('mcq', scenario.monteCarloThresholds.trim());
+  const channels = ['x', 'y', 'color', 'size'];
+  if (channels.some(channel => scenario.scatter[channel] !== DEFAULT_SCATTER_ENCODING[channel])) {
+    params.set('scatter', channels.map(channel => scenario.scatter[channel]).join(','));
+  }
+  if (!scenario.scatterPct) params.set('scatterPct', '0');
+  return `?${params.toString()}`;
+};